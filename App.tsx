@@ -3,24 +3,41 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { generateDecadeImage } from './services/geminiService.ts';
+import React, { useState, ChangeEvent, useRef, useEffect, useMemo } from 'react';
+import { motion, AnimatePresence, useReducedMotion } from 'framer-motion';
+import { createVariant, generateConsistentImage } from './services/generationService.ts';
+import { getImageProvider } from './services/imageProvider.ts';
+import { generationQueue } from './services/generationQueue.ts';
+import { toGenerationError } from './services/generationErrors.ts';
 import PolaroidCard from './components/PolaroidCard.tsx';
-import { createAlbumPage } from './lib/albumUtils.ts';
+import type { AlbumEntry } from './lib/albumUtils.ts';
 import Footer from './components/Footer.tsx';
-import { resizeImage } from './lib/utils.ts';
-
-const DECADES = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'];
-
-const POSITIONS = [
-    { top: '5%', left: '10%', rotate: -8 },
-    { top: '15%', left: '60%', rotate: 5 },
-    { top: '45%', left: '5%', rotate: 3 },
-    { top: '2%', left: '35%', rotate: 10 },
-    { top: '40%', left: '70%', rotate: -12 },
-    { top: '50%', left: '38%', rotate: -3 },
-];
+import EraEditor from './components/EraEditor.tsx';
+import ConsistencySettingsPanel from './components/ConsistencySettingsPanel.tsx';
+import SubjectSelector from './components/SubjectSelector.tsx';
+import HistoryPanel from './components/HistoryPanel.tsx';
+import AlbumDesigner from './components/AlbumDesigner.tsx';
+import AnimationExporter from './components/AnimationExporter.tsx';
+import BatchMode from './components/BatchMode.tsx';
+import CameraCapture from './components/CameraCapture.tsx';
+import ImageEditor from './components/ImageEditor.tsx';
+import ComparisonViewer from './components/ComparisonViewer.tsx';
+import TimelineView from './components/TimelineView.tsx';
+import MobileCardDeck from './components/MobileCardDeck.tsx';
+import { cn, downloadBlob, getDataUrlExtension, resizeImage, shareDataUrl } from './lib/utils.ts';
+import { createResultsBundle } from './lib/bundleExport.ts';
+import { InvalidImageError, normaliseImageFile } from './lib/imageValidation.ts';
+import { type ImageEdits, DEFAULT_IMAGE_EDITS, applyImageEdits } from './lib/imageEditing.ts';
+import { type ConsistencySettings, loadConsistencySettings, saveConsistencySettings } from './lib/faceSimilarity.ts';
+import { type Era, type EraPrompts, getEraPrompts, getEraSlug, loadEraCatalogue, saveEraCatalogue } from './lib/eraCatalogue.ts';
+import { getDeskLayout } from './lib/deskLayout.ts';
+import { type DeskState, DESK_GRID_SIZE, createDeskState, getDeskCardRects, getDeskPlacements, moveCard, raiseCard, tidyDesk } from './lib/deskState.ts';
+import { type ResultsLayout, loadResultsLayout, saveResultsLayout } from './lib/timeline.ts';
+import { type FilmFilter, applyFilmFilter } from './lib/filmFilters.ts';
+import { type GenerationTarget, type Subject, type SubjectMode, cropToSubjects, describeSubjects, getGenerationTargets } from './lib/subjects.ts';
+import { type StoredSession, createSessionId, getRetentionLimit, listSessions, pruneSessions, saveSession, settleInterruptedResults } from './lib/sessionStore.ts';
+import type { GeneratedImage, GenerationErrorKind, GenerationStage, ImageVariant } from './types.ts';
+import { createPendingImage, getSelectedVariant, withFailure, withFilmFilter, withPending, withProgress, withRetry, withSelectedVariant, withVariant } from './lib/variants.ts';
 
 const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "-150%", y: "-100%", rotate: -30 }, transition: { delay: 0.2 } },
@@ -31,13 +48,17 @@ const GHOST_POLAROIDS_CONFIG = [
   { initial: { x: "100%", y: "150%", rotate: 10 }, transition: { delay: 0.3 } },
 ];
 
-type ImageStatus = 'pending' | 'done' | 'error';
-interface GeneratedImage {
-    status: ImageStatus;
-    url?: string;
-    error?: string;
+// How a result card sits in the current layout
+interface CardPlacementProps {
+    dragConstraintsRef?: React.RefObject<HTMLElement>;
+    isStatic?: boolean;
+    onMoveEnd?: (offset: { x: number; y: number }) => void;
+    keyStep?: number;
 }
 
+// Recent announcements kept in the live region
+const ANNOUNCEMENT_LIMIT = 5;
+
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)] cursor-pointer";
 const secondaryButtonClasses = "font-permanent-marker text-xl text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black cursor-pointer";
 
@@ -58,20 +79,103 @@ const useMediaQuery = (query: string) => {
 function App() {
     const [isActivated, setIsActivated] = useState<boolean | null>(null);
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+    // The photo before crops and adjustments, so edits can be changed without compounding
+    const [originalImage, setOriginalImage] = useState<string | null>(null);
+    const [imageEdits, setImageEdits] = useState<ImageEdits>(DEFAULT_IMAGE_EDITS);
+    const [isImageEditorOpen, setIsImageEditorOpen] = useState(false);
+    const [eras, setEras] = useState<Era[]>(loadEraCatalogue);
+    // Keyed by generation target id: the era id, or era and person when people are generated separately
     const [generatedImages, setGeneratedImages] = useState<Record<string, GeneratedImage>>({});
+    // Prompts the user has edited on individual cards, keyed like the results
+    const [promptOverrides, setPromptOverrides] = useState<Record<string, string>>({});
+    // People picked out of a group photo, and whether they're generated together or one by one
+    const [subjects, setSubjects] = useState<Subject[]>([]);
+    const [sourceFilmFilter, setSourceFilmFilter] = useState<FilmFilter | undefined>(undefined);
+    const [announcements, setAnnouncements] = useState<{ id: number; message: string }[]>([]);
+    const announcementIdRef = useRef(0);
+    const reduceMotion = useReducedMotion();
+    const [desk, setDesk] = useState<DeskState>(createDeskState);
+    // Set while cards glide into a tidy arrangement; dropped cards land without animating
+    const [isTidying, setIsTidying] = useState(false);
+    const [subjectMode, setSubjectMode] = useState<SubjectMode>('together');
+    const [consistencySettings, setConsistencySettings] = useState<ConsistencySettings>(loadConsistencySettings);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isUploading, setIsUploading] = useState<boolean>(false);
-    const [isDownloading, setIsDownloading] = useState<boolean>(false);
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    const [isAlbumDesignerOpen, setIsAlbumDesignerOpen] = useState(false);
+    const [isAnimationExporterOpen, setIsAnimationExporterOpen] = useState(false);
+    const [isBundling, setIsBundling] = useState(false);
     const [appState, setAppState] = useState<'idle' | 'image-uploaded' | 'generating' | 'results-shown'>('idle');
+    // The saved history entry the current photo belongs to
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isBatchOpen, setIsBatchOpen] = useState(false);
+    const [resultsLayout, setResultsLayout] = useState<ResultsLayout>(loadResultsLayout);
+    // The card open in the before/after viewer
+    const [compareTargetId, setCompareTargetId] = useState<string | null>(null);
+    const sessionCreatedAtRef = useRef(0);
     const dragAreaRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // The cards to generate: one per era, or per era and person
+    const targets = useMemo(() => getGenerationTargets(eras, subjects, subjectMode), [eras, subjects, subjectMode]);
+    // Bumped whenever the current photo is discarded, so late results from cancelled jobs are ignored.
+    const runRef = useRef(0);
     const isMobile = useMediaQuery('(max-width: 768px)');
 
     useEffect(() => {
         checkActivation();
     }, []);
 
+    useEffect(() => {
+        saveEraCatalogue(eras);
+    }, [eras]);
+
+    useEffect(() => {
+        saveConsistencySettings(consistencySettings);
+    }, [consistencySettings]);
+
+    useEffect(() => {
+        saveResultsLayout(resultsLayout);
+    }, [resultsLayout]);
+
+    // Reopen the most recent session so a reload doesn't lose finished generations.
+    // A photo uploaded or captured while the store is still being read wins over it.
+    useEffect(() => {
+        const run = runRef.current;
+        listSessions()
+            .then(([latest]) => { if (latest && runRef.current === run) openSession(latest); })
+            .catch(err => console.warn("Could not restore last session:", err));
+    }, []);
+
+    // Autosave the current session, debounced so a burst of results becomes one write.
+    useEffect(() => {
+        if (!sessionId || !uploadedImage) return;
+        const timer = setTimeout(() => {
+            saveSession({
+                id: sessionId,
+                createdAt: sessionCreatedAtRef.current,
+                updatedAt: Date.now(),
+                sourceImage: uploadedImage,
+                eras,
+                results: generatedImages,
+                promptOverrides,
+                subjects,
+                subjectMode,
+                sourceFilmFilter,
+                desk,
+            })
+                .then(() => pruneSessions(getRetentionLimit()))
+                .catch(err => console.warn("Could not save session:", err));
+        }, 500);
+        return () => clearTimeout(timer);
+    }, [sessionId, uploadedImage, eras, generatedImages, promptOverrides, subjects, subjectMode, sourceFilmFilter, desk]);
+
     const checkActivation = async () => {
+        // Local providers don't need a key, so skip the activation screen entirely.
+        if (!getImageProvider().requiresApiKey) {
+            setIsActivated(true);
+            return;
+        }
         // Accessing aistudio via window casting to avoid TypeScript re-declaration errors.
         const aistudio = (window as any).aistudio;
         if (aistudio) {
@@ -91,29 +195,71 @@ function App() {
         }
     };
 
+    /**
+     * Starts a new session from a photo, whether uploaded or taken with the camera.
+     */
+    const acceptSourceImage = async (dataUrl: string) => {
+        // Kept larger than what's sent, so crops in the editor still have detail to spare.
+        // Uploads were already decoded upright by normaliseImageFile, so there's no EXIF orientation left to apply.
+        const original = await applyImageEdits(dataUrl, DEFAULT_IMAGE_EDITS, 2048);
+        const optimizedImage = await resizeImage(original, 1024);
+        discardInFlightWork();
+        startNewSession();
+        setOriginalImage(original);
+        setImageEdits(DEFAULT_IMAGE_EDITS);
+        setUploadedImage(optimizedImage);
+        setAppState('image-uploaded');
+        setGeneratedImages({});
+        setPromptOverrides({});
+        setSubjects([]);
+        setSourceFilmFilter(undefined);
+        setDesk(createDeskState());
+        setIsCameraOpen(false);
+    };
+
     const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
 
         setIsUploading(true);
-        const reader = new FileReader();
-        
-        reader.onloadend = async () => {
-            try {
-                const base64 = reader.result as string;
-                const optimizedImage = await resizeImage(base64, 1024);
-                setUploadedImage(optimizedImage);
-                setAppState('image-uploaded');
-                setGeneratedImages({});
-            } catch (err) {
-                console.error("Upload error:", err);
-                alert("Could not process this image file.");
-            } finally {
-                setIsUploading(false);
-                if (fileInputRef.current) fileInputRef.current.value = "";
-            }
-        };
-        reader.readAsDataURL(file);
+        try {
+            const { dataUrl, wasAnimated } = await normaliseImageFile(file);
+            await acceptSourceImage(dataUrl);
+            if (wasAnimated) announce("That image is animated, so its first frame is used.");
+        } catch (err) {
+            console.error("Upload error:", err);
+            alert(err instanceof InvalidImageError ? err.message : "Could not process this image file.");
+        } finally {
+            setIsUploading(false);
+            if (fileInputRef.current) fileInputRef.current.value = "";
+        }
+    };
+
+    const handleApplyEdits = async (edits: ImageEdits) => {
+        // Sessions opened from history only kept the edited photo, so edit on top of that
+        const source = originalImage ?? uploadedImage;
+        if (!source) return;
+        try {
+            const edited = await applyImageEdits(source, edits, 1024);
+            setOriginalImage(source);
+            setImageEdits(edits);
+            setUploadedImage(edited);
+            // Boxes were drawn on the old framing
+            setSubjects([]);
+            setIsImageEditorOpen(false);
+        } catch (err) {
+            console.error("Edit error:", err);
+            alert("Could not apply these edits.");
+        }
+    };
+
+    const handleCameraCapture = async (dataUrl: string) => {
+        try {
+            await acceptSourceImage(dataUrl);
+        } catch (err) {
+            console.error("Camera capture error:", err);
+            alert("Could not process the captured photo.");
+        }
     };
 
     const triggerUpload = () => {
@@ -121,106 +267,350 @@ function App() {
         fileInputRef.current?.click();
     };
 
+    const getPromptsFor = (target: GenerationTarget, overrides: Record<string, string> = promptOverrides): EraPrompts => {
+        const prompts = getEraPrompts(target.era, describeSubjects(target.subjects));
+        return overrides[target.id] ? { ...prompts, prompt: overrides[target.id] } : prompts;
+    };
+
+    const discardInFlightWork = () => {
+        runRef.current++;
+        generationQueue.cancelAll();
+        setIsLoading(false);
+    };
+
+    const startNewSession = () => {
+        sessionCreatedAtRef.current = Date.now();
+        setSessionId(createSessionId());
+    };
+
+    const openSession = (session: StoredSession) => {
+        discardInFlightWork();
+        sessionCreatedAtRef.current = session.createdAt;
+        setSessionId(session.id);
+        setUploadedImage(session.sourceImage);
+        setOriginalImage(null);
+        setImageEdits(DEFAULT_IMAGE_EDITS);
+        setEras(session.eras);
+        setGeneratedImages(settleInterruptedResults(session.results));
+        setPromptOverrides(session.promptOverrides);
+        setSubjects(session.subjects ?? []);
+        setSourceFilmFilter(session.sourceFilmFilter);
+        setDesk(session.desk ?? createDeskState());
+        setSubjectMode(session.subjectMode ?? 'together');
+        setAppState(Object.keys(session.results).length > 0 ? 'results-shown' : 'image-uploaded');
+        setIsHistoryOpen(false);
+        setIsCameraOpen(false);
+    };
+
+    const handleSessionDeleted = (id: string) => {
+        // Keep what's on screen, but stop writing to the deleted entry; it becomes a fresh one on the next save.
+        if (id === sessionId) startNewSession();
+    };
+
+    const showBackoff = (target: GenerationTarget, run: number, retryAt: number) => {
+        if (runRef.current !== run) return;
+        setGeneratedImages(prev => ({ ...prev, [target.id]: withRetry(prev[target.id], retryAt) }));
+    };
+
+    const showProgress = (target: GenerationTarget, run: number, stage: Exclude<GenerationStage, 'retrying'>) => {
+        if (runRef.current !== run) return;
+        setGeneratedImages(prev => {
+            const next = withProgress(prev[target.id], stage);
+            return next === prev[target.id] ? prev : { ...prev, [target.id]: next };
+        });
+    };
+
+    // Read out by screen readers as cards finish, since the desk itself gives no spoken feedback
+    const announce = (message: string) => {
+        const id = ++announcementIdRef.current;
+        setAnnouncements(prev => [...prev.slice(-(ANNOUNCEMENT_LIMIT - 1)), { id, message }]);
+    };
+
+    const recordResult = (target: GenerationTarget, variant: ImageVariant) => {
+        setGeneratedImages(prev => ({ ...prev, [target.id]: withVariant(prev[target.id], variant) }));
+        announce(`${target.caption} is ready.`);
+    };
+
+    const recordFailure = (target: GenerationTarget, err: unknown) => {
+        const error = toGenerationError(err);
+        announce(error.kind === 'cancelled' ? `${target.caption} was cancelled.` : `${target.caption} failed: ${error.message}`);
+        setGeneratedImages(prev => ({
+            ...prev,
+            [target.id]: error.kind === 'cancelled' ? withFailure(prev[target.id], 'cancelled') : withFailure(prev[target.id], 'error', error),
+        }));
+    };
+
+    /**
+     * Queues one card, cropping the photo down to its people first when some were picked.
+     */
+    const generateTarget = (target: GenerationTarget, { prompt, fallbackPrompt }: EraPrompts, run: number) => {
+        const sourceImage = uploadedImage!;
+        return generationQueue.enqueue(target.id, async signal => {
+            const source = await cropToSubjects(sourceImage, target.subjects);
+            return generateConsistentImage(source, prompt, consistencySettings, {
+                signal,
+                era: target.era.caption,
+                fallbackPrompt,
+                onRetry: ({ retryAt }) => showBackoff(target, run, retryAt),
+                onProgress: (stage) => { if (stage !== 'retrying') showProgress(target, run, stage); },
+            });
+        });
+    };
+
     const handleGenerateClick = async () => {
-        if (!uploadedImage) return;
+        if (!uploadedImage || targets.length === 0) return;
 
+        const run = runRef.current;
         setIsLoading(true);
         setAppState('generating');
         
         const initialImages: Record<string, GeneratedImage> = {};
-        DECADES.forEach(decade => {
-            initialImages[decade] = { status: 'pending' };
+        targets.forEach(target => {
+            initialImages[target.id] = createPendingImage(getPromptsFor(target).prompt);
         });
         setGeneratedImages(initialImages);
 
-        for (const decade of DECADES) {
+        await Promise.all(targets.map(async (target) => {
+            const { prompt, fallbackPrompt } = getPromptsFor(target);
             try {
-                const prompt = `Reimagine the person in this photo in the style of the ${decade}. Era-appropriate clothing, hair, and photo style. High quality photorealistic.`;
-                const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-                setGeneratedImages(prev => ({
-                    ...prev,
-                    [decade]: { status: 'done', url: resultUrl },
-                }));
+                const result = await generateTarget(target, { prompt, fallbackPrompt }, run);
+                if (runRef.current !== run) return;
+                recordResult(target, createVariant(result, prompt));
             } catch (err) {
-                const msg = err instanceof Error ? err.message : "Error occurred during generation.";
-                
-                // If specific key/quota errors occur, flag them so the user can re-select a key.
-                if (msg.includes("quota") || msg.includes("limit") || msg.includes("Requested entity was not found")) {
-                    setGeneratedImages(prev => ({
-                        ...prev,
-                        [decade]: { status: 'error', error: "API Key error. Click to re-select." },
-                    }));
-                } else {
-                    setGeneratedImages(prev => ({
-                        ...prev,
-                        [decade]: { status: 'error', error: msg },
-                    }));
-                }
+                if (runRef.current !== run) return;
+                recordFailure(target, err);
             }
-        }
+        }));
 
+        if (runRef.current !== run) return;
         setIsLoading(false);
         setAppState('results-shown');
     };
 
-    const handleRegenerateDecade = async (decade: string) => {
-        if (!uploadedImage || generatedImages[decade]?.status === 'pending') return;
-        
-        // If the error indicates a key issue, trigger the key selection dialog.
-        const currentError = generatedImages[decade]?.error;
-        if (currentError && (currentError.includes("Quota") || currentError.includes("Key") || currentError.includes("Requested entity was not found"))) {
-            handleActivate();
-            return;
-        }
+    const handleRegenerateDecade = async (target: GenerationTarget, overrides: Record<string, string> = promptOverrides) => {
+        if (!uploadedImage || generatedImages[target.id]?.status === 'pending') return;
 
-        setGeneratedImages(prev => ({ ...prev, [decade]: { status: 'pending' } }));
+        const run = runRef.current;
+        const { prompt, fallbackPrompt } = getPromptsFor(target, overrides);
+        setGeneratedImages(prev => ({ ...prev, [target.id]: withPending(prev[target.id], prompt) }));
         try {
-            const prompt = `Reimagine the person in this photo in the style of the ${decade}. Authentic vintage look.`;
-            const resultUrl = await generateDecadeImage(uploadedImage, prompt);
-            setGeneratedImages(prev => ({ ...prev, [decade]: { status: 'done', url: resultUrl } }));
+            const result = await generateTarget(target, { prompt, fallbackPrompt }, run);
+            if (runRef.current !== run) return;
+            recordResult(target, createVariant(result, prompt));
         } catch (err) {
-            const msg = err instanceof Error ? err.message : "Error";
-            setGeneratedImages(prev => ({ ...prev, [decade]: { status: 'error', error: msg } }));
+            if (runRef.current !== run) return;
+            recordFailure(target, err);
         }
     };
+
+    /**
+     * Retries every card that failed for the given reason, re-selecting the API key first for key errors.
+     */
+    const handleRetryFailed = async (kind: GenerationErrorKind) => {
+        if (kind === 'auth') await handleActivate();
+        targets
+            .filter(target => generatedImages[target.id]?.errorKind === kind)
+            .forEach(target => handleRegenerateDecade(target));
+    };
+
+    const handleReselectKey = async (target: GenerationTarget) => {
+        await handleActivate();
+        handleRegenerateDecade(target);
+    };
+
+    /**
+     * Saves a prompt edited on a card (or clears the edit when empty) and regenerates that card with it.
+     */
+    const handlePromptSubmit = (target: GenerationTarget, prompt: string) => {
+        const trimmed = prompt.trim();
+        const { [target.id]: _, ...rest } = promptOverrides;
+        const overrides = trimmed && trimmed !== getPromptsFor(target, {}).prompt ? { ...rest, [target.id]: trimmed } : rest;
+        setPromptOverrides(overrides);
+        handleRegenerateDecade(target, overrides);
+    };
+
+    const handleSelectVariant = (target: GenerationTarget, index: number) => {
+        setGeneratedImages(prev => prev[target.id] ? { ...prev, [target.id]: withSelectedVariant(prev[target.id], index) } : prev);
+    };
+
+    const handleFilmFilterChange = (target: GenerationTarget, filter: FilmFilter | undefined) => {
+        setGeneratedImages(prev => prev[target.id] ? { ...prev, [target.id]: withFilmFilter(prev[target.id], filter) } : prev);
+    };
+
+    const handleCancelDecade = (target: GenerationTarget) => {
+        generationQueue.cancel(target.id);
+    };
     
     const handleReset = () => {
+        discardInFlightWork();
         setUploadedImage(null);
+        setOriginalImage(null);
         setGeneratedImages({});
+        setPromptOverrides({});
+        setSubjects([]);
+        setSourceFilmFilter(undefined);
+        setDesk(createDeskState());
+        setSessionId(null);
         setAppState('idle');
     };
 
-    const handleDownloadIndividualImage = (decade: string) => {
-        const image = generatedImages[decade];
-        if (image?.status === 'done' && image.url) {
-            const link = document.createElement('a');
-            link.href = image.url;
-            link.download = `past-forward-${decade}.jpg`;
-            link.click();
+    const saveImage = (url: string, name: string) => {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `past-forward-${name}.${getDataUrlExtension(url)}`;
+        link.click();
+    };
+
+    // The card's favourite take as it is saved or shared, with any film look applied
+    const getFinalImage = async (target: GenerationTarget): Promise<string | null> => {
+        const result = generatedImages[target.id];
+        const variant = getSelectedVariant(result);
+        if (!variant) return null;
+        return result.filmFilter ? applyFilmFilter(variant.url, result.filmFilter, target.caption) : variant.url;
+    };
+
+    const handleDownloadIndividualImage = async (target: GenerationTarget) => {
+        try {
+            const url = await getFinalImage(target);
+            if (url) saveImage(url, getEraSlug(target));
+        } catch (error) {
+            console.error("Film look error:", error);
+            alert("Could not apply the film look. Please try again.");
         }
     };
 
-    const handleDownloadAlbum = async () => {
-        setIsDownloading(true);
+    /**
+     * Shares a card through the phone's share sheet, or downloads it where files can't be shared.
+     */
+    const handleShareImage = async (target: GenerationTarget) => {
         try {
-            const imageData = (Object.entries(generatedImages) as [string, GeneratedImage][])
-                .filter(([, img]) => img.status === 'done' && img.url)
-                .reduce((acc, [d, img]) => ({ ...acc, [d]: img.url! }), {} as Record<string, string>);
+            const url = await getFinalImage(target);
+            if (!url) return;
+            const name = `past-forward-${getEraSlug(target)}.${getDataUrlExtension(url)}`;
+            if (!await shareDataUrl(url, name, target.caption)) saveImage(url, getEraSlug(target));
+        } catch (error) {
+            console.error("Share error:", error);
+            alert("Could not share the photo. Please try again.");
+        }
+    };
 
-            if (Object.keys(imageData).length === 0) return;
+    const handleDownloadSource = async () => {
+        if (!uploadedImage) return;
+        try {
+            saveImage(sourceFilmFilter ? await applyFilmFilter(uploadedImage, sourceFilmFilter) : uploadedImage, 'original');
+        } catch (error) {
+            console.error("Film look error:", error);
+            alert("Could not apply the film look. Please try again.");
+        }
+    };
 
-            const albumDataUrl = await createAlbumPage(imageData);
-            const link = document.createElement('a');
-            link.href = albumDataUrl;
-            link.download = 'past-forward-album.jpg';
-            link.click();
+    const handleDownloadAll = async () => {
+        if (!uploadedImage) return;
+        setIsBundling(true);
+        try {
+            const bundle = await createResultsBundle({ sourceImage: uploadedImage, eras: targets, results: generatedImages });
+            downloadBlob(bundle, 'past-forward.zip');
         } catch (error) {
-            console.error("Album error:", error);
+            console.error("Bundle error:", error);
+            alert("Could not build the download. Please try again.");
         } finally {
-            setIsDownloading(false);
+            setIsBundling(false);
         }
     };
 
+    const finishedTargets = useMemo(() => targets.filter(target => getSelectedVariant(generatedImages[target.id])), [targets, generatedImages]);
+    // The favourite take of every finished card, in catalogue order, with any film look applied
+    const [albumEntries, setAlbumEntries] = useState<AlbumEntry[]>([]);
+    // Changes only when a favourite take or its look does, so progress ticks don't redraw every filter
+    const albumKey = finishedTargets.map(target => {
+        const result = generatedImages[target.id];
+        const filter = result.filmFilter;
+        return [
+            target.id,
+            target.caption,
+            result.selectedIndex,
+            getSelectedVariant(result)!.createdAt,
+            filter ? `${filter.preset}/${filter.strength}/${filter.dateStamp}` : '',
+        ].join(':');
+    }).join('|');
+    useEffect(() => {
+        let isCurrent = true;
+        Promise.all(finishedTargets.map(async target => {
+            const result = generatedImages[target.id];
+            const { url } = getSelectedVariant(result)!;
+            return { id: target.id, caption: target.caption, url: result.filmFilter ? await applyFilmFilter(url, result.filmFilter, target.caption) : url };
+        }))
+            .then(entries => { if (isCurrent) setAlbumEntries(entries); })
+            .catch(err => console.warn("Could not apply film looks:", err));
+        return () => { isCurrent = false; };
+    }, [albumKey]);
+
+
+    // Key and quota failures hit every card alike, so they get one app-wide fix as well as the per-card one
+    const failedKinds = new Set(targets.map(target => generatedImages[target.id]?.errorKind));
+    const errorNotice = failedKinds.has('auth')
+        ? { kind: 'auth' as const, message: 'Your API key was rejected.', action: 'Select API Key' }
+        : failedKinds.has('quota')
+            ? { kind: 'quota' as const, message: 'The API rate limit was reached. Wait a minute before retrying.', action: 'Retry Failed' }
+            : null;
+
+    const deskLayout = getDeskLayout(targets.length);
+    const deskPlacements = useMemo(() => getDeskPlacements(desk, targets.map(target => target.id)), [desk, targets]);
+    const getDeskSize = () => ({ width: dragAreaRef.current?.clientWidth ?? 1024, height: deskLayout.height });
+
+    const handleRaiseCard = (target: GenerationTarget) => {
+        setDesk(prev => raiseCard(prev, targets.map(t => t.id), target.id));
+    };
+
+    const handleMoveCard = (target: GenerationTarget, offset: { x: number; y: number }) => {
+        setIsTidying(false);
+        setDesk(prev => moveCard(prev, targets.map(t => t.id), target.id, offset, getDeskSize()));
+    };
+
+    const handleTidyDesk = () => {
+        setIsTidying(true);
+        setDesk(prev => tidyDesk(prev, targets.map(t => t.id), getDeskSize()));
+    };
+
+    // The finished cards as they lie on the desk, for albums laid out like it
+    const albumArrangement = useMemo(() => {
+        if (!isAlbumDesignerOpen || isMobile) return undefined;
+        const ids = targets.map(target => target.id);
+        return getDeskCardRects(finishedTargets.map(target => deskPlacements[ids.indexOf(target.id)]), getDeskSize());
+    }, [isAlbumDesignerOpen, isMobile, targets, finishedTargets, deskPlacements]);
+    const canGenerate = eras.length > 0 && eras.every(era => era.caption.trim());
+
+    const renderResultCard = (target: GenerationTarget, placement: CardPlacementProps = {}) => {
+        const result = generatedImages[target.id];
+        return (
+            <PolaroidCard
+                {...placement}
+                caption={target.caption}
+                status={result?.status || 'pending'}
+                imageUrl={getSelectedVariant(result)?.url}
+                variants={result?.variants.map(variant => variant.url)}
+                consistencyScores={result?.variants.map(variant => variant.consistency)}
+                consistencyThreshold={consistencySettings.threshold}
+                selectedVariant={result?.selectedIndex}
+                onSelectVariant={(index) => handleSelectVariant(target, index)}
+                error={result?.error}
+                errorKind={result?.errorKind}
+                retryAt={result?.retryAt}
+                progress={result?.progress}
+                onReselectKey={() => handleReselectKey(target)}
+                onShake={() => handleRegenerateDecade(target)}
+                onCancel={() => handleCancelDecade(target)}
+                onCompare={() => setCompareTargetId(target.id)}
+                prompt={result?.prompt ?? getPromptsFor(target).prompt}
+                onPromptSubmit={(prompt) => handlePromptSubmit(target, prompt)}
+                onDownload={() => handleDownloadIndividualImage(target)}
+                filmFilter={result?.filmFilter}
+                onFilmFilterChange={(filter) => handleFilmFilterChange(target, filter)}
+                isMobile={isMobile}
+            />
+        );
+    };
+
     if (isActivated === false) {
         return (
             <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-8 overflow-hidden relative">
@@ -251,6 +641,66 @@ function App() {
         <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-hidden relative">
             <div className="absolute top-0 left-0 w-full h-full bg-grid-white/[0.05]"></div>
             
+            <div className="absolute top-4 right-4 z-20 flex gap-2">
+                <button
+                    onClick={() => setIsBatchOpen(true)}
+                    className="font-permanent-marker text-sm text-neutral-300 bg-white/10 border border-white/30 rounded-sm py-1.5 px-4 hover:bg-white hover:text-black transition-colors"
+                >
+                    Batch
+                </button>
+                <button
+                    onClick={() => setIsHistoryOpen(true)}
+                    className="font-permanent-marker text-sm text-neutral-300 bg-white/10 border border-white/30 rounded-sm py-1.5 px-4 hover:bg-white hover:text-black transition-colors"
+                >
+                    History
+                </button>
+            </div>
+            <AnimatePresence>
+                {isHistoryOpen && (
+                    <HistoryPanel
+                        key="history"
+                        activeSessionId={sessionId}
+                        onOpen={openSession}
+                        onDeleted={handleSessionDeleted}
+                        onClose={() => setIsHistoryOpen(false)}
+                    />
+                )}
+                {isAlbumDesignerOpen && uploadedImage && (
+                    <AlbumDesigner
+                        key="album"
+                        entries={albumEntries}
+                        sourceImage={uploadedImage}
+                        // Entries catch up a moment after the film looks render; only offer a matching arrangement
+                        arrangement={albumArrangement?.length === albumEntries.length ? albumArrangement : undefined}
+                        onClose={() => setIsAlbumDesignerOpen(false)}
+                    />
+                )}
+                {isAnimationExporterOpen && uploadedImage && (
+                    <AnimationExporter key="animation" entries={albumEntries} sourceImage={uploadedImage} onClose={() => setIsAnimationExporterOpen(false)} />
+                )}
+                {isImageEditorOpen && (originalImage ?? uploadedImage) && (
+                    <ImageEditor
+                        key="editor"
+                        image={originalImage ?? uploadedImage}
+                        edits={imageEdits}
+                        onApply={handleApplyEdits}
+                        onClose={() => setIsImageEditorOpen(false)}
+                    />
+                )}
+                {compareTargetId && uploadedImage && albumEntries.length > 0 && (
+                    <ComparisonViewer
+                        key="compare"
+                        sourceImage={uploadedImage}
+                        entries={albumEntries}
+                        initialIndex={Math.max(0, albumEntries.findIndex(entry => entry.id === compareTargetId))}
+                        onClose={() => setCompareTargetId(null)}
+                    />
+                )}
+                {isBatchOpen && (
+                    <BatchMode key="batch" eras={eras} consistencySettings={consistencySettings} onClose={() => setIsBatchOpen(false)} />
+                )}
+            </AnimatePresence>
+
             <div className="z-10 flex flex-col items-center justify-center w-full h-full flex-1 min-h-0">
                 <div className="text-center mb-10">
                     <h1 className="text-6xl md:text-8xl font-caveat font-bold text-neutral-100">Past Forward</h1>
@@ -259,7 +709,7 @@ function App() {
 
                 {appState === 'idle' && (
                      <div className="relative flex flex-col items-center justify-center w-full">
-                        {GHOST_POLAROIDS_CONFIG.map((config, index) => (
+                        {!reduceMotion && GHOST_POLAROIDS_CONFIG.map((config, index) => (
                              <motion.div
                                 key={index}
                                 className="absolute w-80 h-[26rem] rounded-md p-4 bg-neutral-100/10 blur-sm"
@@ -268,6 +718,9 @@ function App() {
                                 transition={{ ...config.transition, ease: "circOut", duration: 2 }}
                             />
                         ))}
+                        {isCameraOpen ? (
+                            <CameraCapture onCapture={handleCameraCapture} onCancel={() => setIsCameraOpen(false)} />
+                        ) : (
                         <motion.div
                              initial={{ opacity: 0, scale: 0.8 }}
                              animate={{ opacity: 1, scale: 1 }}
@@ -276,7 +729,15 @@ function App() {
                         >
                             <div 
                                 onClick={triggerUpload} 
-                                className="cursor-pointer group transform hover:scale-105 transition-transform duration-300 active:scale-95"
+                                onKeyDown={(e) => {
+                                    if (e.key !== 'Enter' && e.key !== ' ') return;
+                                    e.preventDefault();
+                                    triggerUpload();
+                                }}
+                                role="button"
+                                tabIndex={0}
+                                aria-label="Upload a photo"
+                                className="cursor-pointer group transform hover:scale-105 transition-transform duration-300 active:scale-95 rounded-md focus:outline-none focus-visible:ring-4 focus-visible:ring-yellow-400"
                             >
                                  <PolaroidCard 
                                      caption={isUploading ? "Reading..." : "Click to Upload"}
@@ -287,81 +748,166 @@ function App() {
                                 ref={fileInputRef}
                                 type="file" 
                                 className="hidden" 
-                                accept="image/*" 
+                                accept="image/*,.heic,.heif" 
                                 onChange={handleImageUpload} 
                             />
                             <p className="mt-8 font-permanent-marker text-neutral-500 text-center max-w-xs text-lg">
                                 {isUploading ? "Reading photo data..." : "Click the polaroid to upload your photo."}
                             </p>
+                            <button
+                                onClick={() => setIsCameraOpen(true)}
+                                disabled={isUploading}
+                                className={`${secondaryButtonClasses} mt-4 disabled:opacity-50`}
+                            >
+                                Use Camera
+                            </button>
                         </motion.div>
+                        )}
                     </div>
                 )}
 
                 {appState === 'image-uploaded' && uploadedImage && (
-                    <div className="flex flex-col items-center gap-6">
-                         <PolaroidCard imageUrl={uploadedImage} caption="Your Photo" status="done" isUserPhoto />
-                         <div className="flex items-center gap-4 mt-4">
-                            <button onClick={handleReset} className={secondaryButtonClasses}>New Photo</button>
-                            <button onClick={handleGenerateClick} className={primaryButtonClasses}>Start Time Machine</button>
-                         </div>
+                    <div className="flex flex-col lg:flex-row items-center lg:items-start gap-10">
+                        <div className="flex flex-col items-center gap-6">
+                             <PolaroidCard
+                                imageUrl={uploadedImage}
+                                caption="Your Photo"
+                                status="done"
+                                filmFilter={sourceFilmFilter}
+                                onFilmFilterChange={setSourceFilmFilter}
+                                onDownload={handleDownloadSource}
+                                isUserPhoto
+                             />
+                             <div className="flex items-center gap-4 mt-4">
+                                <button onClick={handleReset} className={secondaryButtonClasses}>New Photo</button>
+                                <button onClick={() => setIsImageEditorOpen(true)} className={secondaryButtonClasses}>Edit Photo</button>
+                                <button
+                                    onClick={handleGenerateClick}
+                                    disabled={!canGenerate}
+                                    className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                >
+                                    Start Time Machine
+                                </button>
+                             </div>
+                        </div>
+                        <div className="flex flex-col gap-4 w-full max-w-md">
+                            <EraEditor eras={eras} onChange={setEras} />
+                            <SubjectSelector
+                                image={uploadedImage}
+                                subjects={subjects}
+                                mode={subjectMode}
+                                onChange={setSubjects}
+                                onModeChange={setSubjectMode}
+                            />
+                            <ConsistencySettingsPanel settings={consistencySettings} onChange={setConsistencySettings} />
+                        </div>
                     </div>
                 )}
 
                 {(appState === 'generating' || appState === 'results-shown') && (
                      <>
-                        {isMobile ? (
-                            <div className="w-full max-w-sm flex-1 overflow-y-auto mt-4 space-y-8 p-4">
-                                {DECADES.map((decade) => (
-                                    <div key={decade} className="flex justify-center">
-                                         <PolaroidCard
-                                            caption={decade}
-                                            status={generatedImages[decade]?.status || 'pending'}
-                                            imageUrl={generatedImages[decade]?.url}
-                                            error={generatedImages[decade]?.error}
-                                            onShake={handleRegenerateDecade}
-                                            onDownload={handleDownloadIndividualImage}
-                                            isMobile={isMobile}
-                                        />
-                                    </div>
-                                ))}
+                        <div className="flex gap-1 text-xs bg-white/5 border border-white/10 rounded-sm p-1">
+                            {(['desk', 'timeline'] as const).map(layout => (
+                                <button
+                                    key={layout}
+                                    onClick={() => setResultsLayout(layout)}
+                                    className={cn(
+                                        "font-permanent-marker py-1 px-3 rounded-sm capitalize transition-colors",
+                                        resultsLayout === layout ? "bg-yellow-400 text-black" : "text-neutral-400 hover:text-white",
+                                    )}
+                                >
+                                    {layout}
+                                </button>
+                            ))}
+                        </div>
+                        {resultsLayout === 'desk' && !isMobile && (
+                            <div className="flex items-center gap-4 mt-2 text-xs text-neutral-400">
+                                <button onClick={handleTidyDesk} className="font-permanent-marker hover:text-white">Tidy up</button>
+                                <label className="flex items-center gap-1.5">
+                                    <input
+                                        type="checkbox"
+                                        checked={desk.snapToGrid}
+                                        onChange={(e) => setDesk(prev => ({ ...prev, snapToGrid: e.target.checked }))}
+                                        className="accent-yellow-400"
+                                    />
+                                    Snap to grid
+                                </label>
                             </div>
+                        )}
+                        {resultsLayout === 'timeline' ? (
+                            <TimelineView targets={targets} renderCard={target => renderResultCard(target, { isStatic: true })} />
+                        ) : isMobile ? (
+                            <MobileCardDeck
+                                targets={targets}
+                                renderCard={target => renderResultCard(target)}
+                                onRegenerate={target => handleRegenerateDecade(target)}
+                                onDownload={handleDownloadIndividualImage}
+                                onShare={handleShareImage}
+                                isFinished={target => Boolean(getSelectedVariant(generatedImages[target.id]))}
+                            />
                         ) : (
-                            <div ref={dragAreaRef} className="relative w-full max-w-5xl h-[600px] mt-4">
-                                {DECADES.map((decade, index) => {
-                                    const { top, left, rotate } = POSITIONS[index];
+                            <div ref={dragAreaRef} className="relative w-full max-w-5xl mt-4" style={{ height: deskLayout.height }}>
+                                {targets.map((target, index) => {
+                                    const { x, y, rotate, z } = deskPlacements[index];
+                                    const glide = isTidying && !reduceMotion ? { type: 'spring' as const, stiffness: 80, damping: 18 } : { duration: 0 };
                                     return (
                                         <motion.div
-                                            key={decade}
+                                            key={target.id}
                                             className="absolute cursor-grab active:cursor-grabbing"
-                                            style={{ top, left }}
+                                            style={{ zIndex: z }}
                                             initial={{ opacity: 0, scale: 0.5, y: 100 }}
-                                            animate={{ opacity: 1, scale: 1, y: 0, rotate: `${rotate}deg` }}
-                                            transition={{ type: 'spring', stiffness: 100, damping: 20, delay: index * 0.1 }}
+                                            animate={{ opacity: 1, scale: 1, y: 0, left: `${x * 100}%`, top: `${y * 100}%`, rotate: `${rotate}deg` }}
+                                            transition={{ type: 'spring', stiffness: 100, damping: 20, delay: index * 0.1, left: glide, top: glide }}
+                                            onPointerDownCapture={() => handleRaiseCard(target)}
+                                            onFocusCapture={() => handleRaiseCard(target)}
                                         >
-                                            <PolaroidCard 
-                                                dragConstraintsRef={dragAreaRef}
-                                                caption={decade}
-                                                status={generatedImages[decade]?.status || 'pending'}
-                                                imageUrl={generatedImages[decade]?.url}
-                                                error={generatedImages[decade]?.error}
-                                                onShake={handleRegenerateDecade}
-                                                onDownload={handleDownloadIndividualImage}
-                                                isMobile={isMobile}
-                                            />
+                                            {renderResultCard(target, {
+                                                dragConstraintsRef: dragAreaRef,
+                                                onMoveEnd: (offset) => handleMoveCard(target, offset),
+                                                keyStep: desk.snapToGrid ? DESK_GRID_SIZE : undefined,
+                                            })}
                                         </motion.div>
                                     );
                                 })}
                             </div>
+                        )}
+                        {errorNotice && (
+                            <div className="mt-4 flex items-center gap-4 bg-red-900/60 border border-red-400/40 rounded-sm px-4 py-2 text-sm text-red-100">
+                                <span>{errorNotice.message}</span>
+                                <button
+                                    onClick={() => handleRetryFailed(errorNotice.kind)}
+                                    className="font-permanent-marker text-xs text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+                                >
+                                    {errorNotice.action}
+                                </button>
+                            </div>
                         )}
                          <div className="h-20 mt-4 flex items-center justify-center">
+                            {appState === 'generating' && (
+                                <button onClick={handleReset} className={secondaryButtonClasses}>Stop &amp; Start Over</button>
+                            )}
                             {appState === 'results-shown' && (
                                 <div className="flex flex-col sm:flex-row items-center gap-4">
                                     <button 
-                                        onClick={handleDownloadAlbum} 
-                                        disabled={isDownloading} 
+                                        onClick={() => setIsAlbumDesignerOpen(true)} 
+                                        disabled={albumEntries.length === 0} 
                                         className={`${primaryButtonClasses} disabled:opacity-50`}
                                     >
-                                        {isDownloading ? 'Building Album...' : 'Download Album'}
+                                        Download Album
+                                    </button>
+                                    <button
+                                        onClick={() => setIsAnimationExporterOpen(true)}
+                                        disabled={albumEntries.length === 0}
+                                        className={`${secondaryButtonClasses} disabled:opacity-50`}
+                                    >
+                                        Time Travel GIF
+                                    </button>
+                                    <button
+                                        onClick={handleDownloadAll}
+                                        disabled={albumEntries.length === 0 || isBundling}
+                                        className={`${secondaryButtonClasses} disabled:opacity-50`}
+                                    >
+                                        {isBundling ? 'Zipping...' : 'Download All'}
                                     </button>
                                     <button onClick={handleReset} className={secondaryButtonClasses}>Start Over</button>
                                 </div>
@@ -370,6 +916,9 @@ function App() {
                     </>
                 )}
             </div>
+            <div role="log" aria-live="polite" className="sr-only">
+                {announcements.map(({ id, message }) => <p key={id}>{message}</p>)}
+            </div>
             <Footer />
         </main>
     );
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { type AlbumEntry, createAlbumPage } from '../lib/albumUtils.ts';
+import { createAlbumPdf } from '../lib/albumPdf.ts';
+import { downloadBlob } from '../lib/utils.ts';
+import type { DeskCardRect } from '../lib/deskState.ts';
+import {
+    type AlbumOptions,
+    type AlbumTexture,
+    ALBUM_TEMPLATES,
+    CAPTION_FONTS,
+    DEFAULT_ALBUM_OPTIONS,
+    getAlbumTemplate,
+} from '../lib/albumLayouts.ts';
+
+interface AlbumDesignerProps {
+    entries: AlbumEntry[];
+    /** The original upload, used for the PDF cover. */
+    sourceImage: string;
+    /** How the cards lie on the desk, one per entry. Offered as a layout when given. */
+    arrangement?: DeskCardRect[];
+    onClose: () => void;
+}
+
+const PREVIEW_SCALE = 0.2;
+const PREVIEW_DEBOUNCE_MS = 300;
+const TEXTURES: { value: AlbumTexture; label: string }[] = [
+    { value: 'none', label: 'Plain' },
+    { value: 'paper', label: 'Paper' },
+    { value: 'linen', label: 'Linen' },
+    { value: 'wood', label: 'Wood' },
+];
+
+const fieldClasses = "w-full bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-sm text-neutral-100 focus:outline-none focus:border-yellow-400";
+const labelClasses = "flex flex-col gap-1 text-xs text-neutral-400";
+
+const AlbumDesigner: React.FC<AlbumDesignerProps> = ({ entries, sourceImage, arrangement, onClose }) => {
+    const [templateId, setTemplateId] = useState(ALBUM_TEMPLATES[0].id);
+    const [isDeskLayout, setIsDeskLayout] = useState(false);
+    // Only what the user changed; everything else comes from the template's defaults
+    const [edits, setEdits] = useState<Partial<AlbumOptions>>({});
+    // Fixed per designer session so the preview's tilt matches the export
+    const [seed] = useState(() => Math.floor(Math.random() * 1e9));
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [isExportingPdf, setIsExportingPdf] = useState(false);
+
+    const template = getAlbumTemplate(templateId);
+    const options: AlbumOptions = { ...DEFAULT_ALBUM_OPTIONS, ...template.defaults, ...edits };
+    const pageArrangement = isDeskLayout ? arrangement : undefined;
+
+    useEffect(() => {
+        let isCurrent = true;
+        const timer = setTimeout(() => {
+            createAlbumPage(entries, { templateId, options: edits, scale: PREVIEW_SCALE, seed, arrangement: pageArrangement })
+                .then(url => { if (isCurrent) setPreviewUrl(url); })
+                .catch(err => console.error("Album preview error:", err));
+        }, PREVIEW_DEBOUNCE_MS);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timer);
+        };
+    }, [entries, templateId, edits, seed, pageArrangement]);
+
+    const updateOption = <K extends keyof AlbumOptions>(key: K, value: AlbumOptions[K]) => {
+        setEdits(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleTemplateChange = (id: string) => {
+        setTemplateId(id);
+        // Let the new template's own background and texture show through
+        setEdits(({ background, texture, ...rest }) => rest);
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const albumDataUrl = await createAlbumPage(entries, { templateId, options: edits, seed, arrangement: pageArrangement });
+            const link = document.createElement('a');
+            link.href = albumDataUrl;
+            link.download = `past-forward-album-${templateId}.jpg`;
+            link.click();
+        } catch (error) {
+            console.error("Album error:", error);
+            alert("Could not create the album image. Please try again.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleExportPdf = async () => {
+        setIsExportingPdf(true);
+        try {
+            const pdf = await createAlbumPdf({ sourceImage, entries, options, seed });
+            downloadBlob(pdf, 'past-forward-album.pdf');
+        } catch (error) {
+            console.error("PDF error:", error);
+            alert("Could not create the album PDF. Please try again.");
+        } finally {
+            setIsExportingPdf(false);
+        }
+    };
+
+    return (
+        <motion.div
+            className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-md p-6 flex flex-col md:flex-row gap-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex-1 flex items-center justify-center bg-black/40 rounded-sm p-4 min-h-[20rem]">
+                    {previewUrl
+                        ? <img src={previewUrl} alt="Album preview" className="max-h-[70vh] max-w-full object-contain shadow-2xl" />
+                        : <span className="font-permanent-marker text-neutral-500">Laying out photos...</span>}
+                </div>
+
+                <div className="w-full md:w-72 flex flex-col gap-3">
+                    <h2 className="font-caveat text-4xl font-bold text-neutral-100">Album</h2>
+                    <label className={labelClasses}>
+                        Layout
+                        <select value={templateId} onChange={(e) => handleTemplateChange(e.target.value)} className={fieldClasses}>
+                            {ALBUM_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                        </select>
+                    </label>
+                    {arrangement && (
+                        <label className="flex items-center gap-2 text-xs text-neutral-300">
+                            <input type="checkbox" checked={isDeskLayout} onChange={(e) => setIsDeskLayout(e.target.checked)} className="accent-yellow-400" />
+                            Arrange as on my desk
+                        </label>
+                    )}
+                    <label className={labelClasses}>
+                        Title
+                        <input value={options.title} onChange={(e) => updateOption('title', e.target.value)} className={fieldClasses} />
+                    </label>
+                    <label className={labelClasses}>
+                        Subtitle
+                        <input value={options.subtitle} onChange={(e) => updateOption('subtitle', e.target.value)} className={fieldClasses} />
+                    </label>
+                    <div className="flex gap-3">
+                        <label className={labelClasses}>
+                            Background
+                            <input
+                                type="color"
+                                value={options.background}
+                                onChange={(e) => updateOption('background', e.target.value)}
+                                className="h-8 w-16 bg-transparent border border-white/20 rounded-sm cursor-pointer"
+                            />
+                        </label>
+                        <label className={`${labelClasses} flex-1`}>
+                            Texture
+                            <select value={options.texture} onChange={(e) => updateOption('texture', e.target.value as AlbumTexture)} className={fieldClasses}>
+                                {TEXTURES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <label className={labelClasses}>
+                        Caption font
+                        <select value={options.captionFont} onChange={(e) => updateOption('captionFont', e.target.value)} className={fieldClasses}>
+                            {CAPTION_FONTS.map(font => <option key={font.value} value={font.value}>{font.label}</option>)}
+                        </select>
+                    </label>
+
+                    <div className="mt-auto pt-4 flex flex-col gap-3">
+                        <button
+                            onClick={handleExport}
+                            disabled={isExporting}
+                            className="font-permanent-marker text-lg text-black bg-yellow-400 py-2 px-6 rounded-sm hover:bg-yellow-300 disabled:opacity-50"
+                        >
+                            {isExporting ? 'Building Album...' : 'Download Album'}
+                        </button>
+                        <button
+                            onClick={handleExportPdf}
+                            disabled={isExportingPdf}
+                            className="font-permanent-marker text-lg text-white bg-white/10 border-2 border-white/80 py-2 px-6 rounded-sm hover:bg-white hover:text-black disabled:opacity-50"
+                        >
+                            {isExportingPdf ? 'Printing PDF...' : 'Download PDF'}
+                        </button>
+                        <button onClick={onClose} className="font-permanent-marker text-sm text-neutral-300 hover:text-white">
+                            Close
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </motion.div>
+    );
+};
+
+export default AlbumDesigner;
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import type { AlbumEntry } from '../lib/albumUtils.ts';
+import { downloadBlob } from '../lib/utils.ts';
+import {
+    type AnimationFormat,
+    type AnimationSettings,
+    type TimeTravelAnimation,
+    ANIMATION_HEIGHT,
+    ANIMATION_WIDTH,
+    DEFAULT_ANIMATION_SETTINGS,
+    createTimeTravelGif,
+    createTimeTravelWebm,
+    drawAnimationFrame,
+    getWebmMimeType,
+    loadTimeTravelAnimation,
+} from '../lib/animationExport.ts';
+
+interface AnimationExporterProps {
+    entries: AlbumEntry[];
+    sourceImage: string;
+    onClose: () => void;
+}
+
+const fieldClasses = "w-full bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-sm text-neutral-100 focus:outline-none focus:border-yellow-400";
+const labelClasses = "flex flex-col gap-1 text-xs text-neutral-400";
+
+const AnimationExporter: React.FC<AnimationExporterProps> = ({ entries, sourceImage, onClose }) => {
+    const [settings, setSettings] = useState<AnimationSettings>(DEFAULT_ANIMATION_SETTINGS);
+    const [format, setFormat] = useState<AnimationFormat>('gif');
+    const [animation, setAnimation] = useState<TimeTravelAnimation | null>(null);
+    // 0..1 while exporting, null otherwise
+    const [progress, setProgress] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const previewRef = useRef<HTMLCanvasElement>(null);
+    const canRecordWebm = getWebmMimeType() !== null;
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadTimeTravelAnimation(sourceImage, entries)
+            .then(loaded => { if (isCurrent) setAnimation(loaded); })
+            .catch(err => {
+                console.error("Animation load error:", err);
+                if (isCurrent) setError("Could not load the photos for the animation.");
+            });
+        return () => { isCurrent = false; };
+    }, [sourceImage, entries]);
+
+    // Play the animation on a loop so changes to the timing show immediately
+    useEffect(() => {
+        const ctx = previewRef.current?.getContext('2d');
+        if (!animation || !ctx) return;
+        const startedAt = performance.now();
+        let frame = requestAnimationFrame(function tick(now) {
+            drawAnimationFrame(ctx, animation, settings, now - startedAt);
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [animation, settings]);
+
+    const updateSetting = (key: keyof AnimationSettings, seconds: string) => {
+        setSettings(prev => ({ ...prev, [key]: Math.round(parseFloat(seconds) * 1000) }));
+    };
+
+    const handleExport = async () => {
+        if (!animation) return;
+        setProgress(0);
+        setError(null);
+        try {
+            const blob = format === 'gif'
+                ? await createTimeTravelGif(animation, settings, setProgress)
+                : await createTimeTravelWebm(animation, settings, setProgress);
+            downloadBlob(blob, `past-forward-time-travel.${format}`);
+        } catch (err) {
+            console.error("Animation export error:", err);
+            setError(format === 'gif'
+                ? "Could not create the animation. Please try again."
+                : "Could not record the video. Try again, or download a GIF instead.");
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const isExporting = progress !== null;
+
+    return (
+        <motion.div
+            className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-md p-6 flex flex-col md:flex-row gap-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex-1 flex items-center justify-center bg-black/40 rounded-sm p-4 min-h-[20rem]">
+                    {animation
+                        ? <canvas ref={previewRef} width={ANIMATION_WIDTH} height={ANIMATION_HEIGHT} className="max-h-[70vh] max-w-full" />
+                        : <span className="font-permanent-marker text-neutral-500">Developing frames...</span>}
+                </div>
+
+                <div className="w-full md:w-72 flex flex-col gap-3">
+                    <h2 className="font-caveat text-4xl font-bold text-neutral-100">Time Travel</h2>
+                    <label className={labelClasses}>
+                        Hold each photo: {(settings.frameDuration / 1000).toFixed(1)}s
+                        <input
+                            type="range" min="0.5" max="4" step="0.1"
+                            value={settings.frameDuration / 1000}
+                            onChange={(e) => updateSetting('frameDuration', e.target.value)}
+                            className="accent-yellow-400"
+                        />
+                    </label>
+                    <label className={labelClasses}>
+                        Crossfade: {settings.transitionDuration ? `${(settings.transitionDuration / 1000).toFixed(1)}s` : 'Cut'}
+                        <input
+                            type="range" min="0" max="2" step="0.1"
+                            value={settings.transitionDuration / 1000}
+                            onChange={(e) => updateSetting('transitionDuration', e.target.value)}
+                            className="accent-yellow-400"
+                        />
+                    </label>
+                    <label className={labelClasses}>
+                        Format
+                        <select value={format} onChange={(e) => setFormat(e.target.value as AnimationFormat)} className={fieldClasses}>
+                            <option value="gif">Animated GIF</option>
+                            {canRecordWebm && <option value="webm">WebM video</option>}
+                        </select>
+                    </label>
+                    {format === 'webm' && (
+                        <p className="text-xs text-neutral-500">Video is recorded in real time, so export takes one full loop.</p>
+                    )}
+
+                    <div className="mt-auto pt-4 flex flex-col gap-3">
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+                        <button
+                            onClick={handleExport}
+                            disabled={!animation || isExporting}
+                            className="font-permanent-marker text-lg text-black bg-yellow-400 py-2 px-6 rounded-sm hover:bg-yellow-300 disabled:opacity-50"
+                        >
+                            {isExporting ? `Exporting... ${Math.round(progress * 100)}%` : `Download ${format === 'gif' ? 'GIF' : 'Video'}`}
+                        </button>
+                        <button onClick={onClose} className="font-permanent-marker text-sm text-neutral-300 hover:text-white">
+                            Close
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </motion.div>
+    );
+};
+
+export default AnimationExporter;
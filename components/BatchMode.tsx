@@ -0,0 +1,300 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { cn, downloadBlob, resizeImage } from '../lib/utils.ts';
+import { type Era, getEraPrompts } from '../lib/eraCatalogue.ts';
+import type { ConsistencySettings } from '../lib/faceSimilarity.ts';
+import { createAlbumsBundle } from '../lib/bundleExport.ts';
+import { InvalidImageError, normaliseImageFile } from '../lib/imageValidation.ts';
+import { createPendingImage, getSelectedVariant, withFailure, withVariant } from '../lib/variants.ts';
+import { createVariant, generateConsistentImage } from '../services/generationService.ts';
+import { generationQueue } from '../services/generationQueue.ts';
+import { toGenerationError } from '../services/generationErrors.ts';
+import type { GeneratedImage } from '../types.ts';
+
+interface BatchModeProps {
+    eras: Era[];
+    consistencySettings: ConsistencySettings;
+    onClose: () => void;
+}
+
+/**
+ * One guest's photo and its results, keyed by era id.
+ */
+interface BatchPhoto {
+    id: string;
+    name: string;
+    source: string;
+    results: Record<string, GeneratedImage>;
+}
+
+const buttonClasses = "font-permanent-marker text-sm py-2 px-4 rounded-sm disabled:opacity-50 disabled:cursor-not-allowed";
+
+const getJobId = (photo: BatchPhoto, era: Era) => `batch:${photo.id}:${era.id}`;
+
+const BatchMode: React.FC<BatchModeProps> = ({ eras, consistencySettings, onClose }) => {
+    const [photos, setPhotos] = useState<BatchPhoto[]>([]);
+    const [isReading, setIsReading] = useState(false);
+    // Files from the last add that couldn't be used, with the reason
+    const [skipped, setSkipped] = useState<string[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    // Bumped on stop and close, so results that arrive afterwards are dropped
+    const runRef = useRef(0);
+    const jobIdsRef = useRef<string[]>([]);
+
+    const cancelJobs = () => {
+        jobIdsRef.current.forEach(id => generationQueue.cancel(id));
+        jobIdsRef.current = [];
+    };
+
+    useEffect(() => () => {
+        runRef.current++;
+        cancelJobs();
+    }, []);
+
+    const handleFiles = async (files: FileList | null) => {
+        const candidates = Array.from(files ?? []);
+        if (candidates.length === 0) return;
+        setIsReading(true);
+        const added: BatchPhoto[] = [];
+        const rejected: string[] = [];
+        for (const [index, file] of candidates.entries()) {
+            try {
+                const { dataUrl } = await normaliseImageFile(file);
+                added.push({
+                    id: `${Date.now().toString(36)}-${index}`,
+                    name: file.name.replace(/\.[^.]+$/, ''),
+                    source: await resizeImage(dataUrl, 1024),
+                    results: {},
+                });
+            } catch (err) {
+                // Folders can hold anything; only mention the pictures that didn't work
+                if (err instanceof InvalidImageError && err.reason === 'not-an-image') continue;
+                console.warn(`Skipping ${file.name}:`, err);
+                rejected.push(`${file.name}: ${err instanceof InvalidImageError ? err.message : 'could not be read.'}`);
+            }
+        }
+        setPhotos(prev => [...prev, ...added]);
+        setSkipped(rejected);
+        setIsReading(false);
+    };
+
+    const updateResult = (photoId: string, eraId: string, update: (image: GeneratedImage | undefined) => GeneratedImage) => {
+        setPhotos(prev => prev.map(photo => photo.id === photoId
+            ? { ...photo, results: { ...photo.results, [eraId]: update(photo.results[eraId]) } }
+            : photo));
+    };
+
+    /**
+     * Runs every era that doesn't have a result yet, so adding photos and starting again only does the new work.
+     */
+    const handleStart = async () => {
+        const run = ++runRef.current;
+        const jobs = photos.flatMap(photo => eras
+            .filter(era => !getSelectedVariant(photo.results[era.id]))
+            .map(era => ({ photo, era })));
+        if (jobs.length === 0) return;
+
+        setIsRunning(true);
+        setPhotos(prev => prev.map(photo => ({
+            ...photo,
+            results: {
+                ...photo.results,
+                ...Object.fromEntries(jobs
+                    .filter(job => job.photo.id === photo.id)
+                    .map(({ era }) => [era.id, createPendingImage(getEraPrompts(era).prompt)])),
+            },
+        })));
+
+        await Promise.all(jobs.map(async ({ photo, era }) => {
+            const { prompt, fallbackPrompt } = getEraPrompts(era);
+            const jobId = getJobId(photo, era);
+            jobIdsRef.current.push(jobId);
+            try {
+                const result = await generationQueue.enqueue(jobId, signal => generateConsistentImage(photo.source, prompt, consistencySettings, {
+                    signal,
+                    era: era.caption,
+                    fallbackPrompt,
+                }));
+                if (runRef.current !== run) return;
+                updateResult(photo.id, era.id, image => withVariant(image, createVariant(result, prompt)));
+            } catch (err) {
+                if (runRef.current !== run) return;
+                const error = toGenerationError(err);
+                updateResult(photo.id, era.id, image => error.kind === 'cancelled'
+                    ? withFailure(image, 'cancelled')
+                    : withFailure(image, 'error', error));
+            }
+        }));
+
+        if (runRef.current !== run) return;
+        jobIdsRef.current = [];
+        setIsRunning(false);
+    };
+
+    const handleStop = () => {
+        runRef.current++;
+        cancelJobs();
+        setIsRunning(false);
+        setPhotos(prev => prev.map(photo => ({
+            ...photo,
+            results: Object.fromEntries(Object.keys(photo.results).map(eraId => {
+                const image = photo.results[eraId];
+                return [eraId, image.status === 'pending' ? withFailure(image, 'cancelled') : image];
+            })),
+        })));
+    };
+
+    const handleRemove = (id: string) => {
+        setPhotos(prev => prev.filter(photo => photo.id !== id));
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const bundle = await createAlbumsBundle(photos.map(photo => ({
+                name: photo.name,
+                entries: eras
+                    .map(era => ({ caption: era.caption, variant: getSelectedVariant(photo.results[era.id]) }))
+                    .filter(entry => entry.variant)
+                    .map(({ caption, variant }) => ({ caption, url: variant!.url })),
+            })));
+            downloadBlob(bundle, 'past-forward-batch-albums.zip');
+        } catch (error) {
+            console.error("Batch export error:", error);
+            alert("Could not build the albums. Please try again.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const total = photos.length * eras.length;
+    const settled = photos.reduce((count, photo) => count + eras.filter(era => {
+        const status = photo.results[era.id]?.status;
+        return status !== undefined && status !== 'pending';
+    }).length, 0);
+    const hasResults = photos.some(photo => eras.some(era => getSelectedVariant(photo.results[era.id])));
+
+    return (
+        <motion.div
+            className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-md p-6 flex flex-col gap-4"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="font-caveat text-4xl font-bold text-neutral-100">Batch</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white text-sm">Close</button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className={cn(buttonClasses, "cursor-pointer text-white bg-white/10 border border-white/60 hover:bg-white hover:text-black", isRunning && "pointer-events-none opacity-50")}>
+                        Add photos
+                        <input type="file" accept="image/*,.heic,.heif" multiple className="hidden" onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+                    </label>
+                    <label className={cn(buttonClasses, "cursor-pointer text-white bg-white/10 border border-white/60 hover:bg-white hover:text-black", isRunning && "pointer-events-none opacity-50")}>
+                        Add folder
+                        <input
+                            type="file"
+                            className="hidden"
+                            // Non-standard, but supported by every major browser
+                            {...{ webkitdirectory: '', directory: '' }}
+                            onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+                        />
+                    </label>
+                    {isRunning ? (
+                        <button onClick={handleStop} className={cn(buttonClasses, "text-white bg-red-600 hover:bg-red-500")}>Stop</button>
+                    ) : (
+                        <button
+                            onClick={handleStart}
+                            disabled={photos.length === 0 || eras.length === 0 || isReading}
+                            className={cn(buttonClasses, "text-black bg-yellow-400 hover:bg-yellow-300")}
+                        >
+                            Start ({eras.length} {eras.length === 1 ? 'era' : 'eras'} each)
+                        </button>
+                    )}
+                    <button
+                        onClick={handleExport}
+                        disabled={!hasResults || isRunning || isExporting}
+                        className={cn(buttonClasses, "text-black bg-yellow-400 hover:bg-yellow-300")}
+                    >
+                        {isExporting ? 'Building albums...' : 'Download albums'}
+                    </button>
+                    {isReading && <span className="text-sm text-neutral-400">Reading photos...</span>}
+                </div>
+
+                {skipped.length > 0 && (
+                    <div className="text-xs text-red-100 bg-red-900/60 border border-red-400/40 rounded-sm p-3 flex flex-col gap-1">
+                        <span className="font-bold">Skipped {skipped.length} {skipped.length === 1 ? 'file' : 'files'}:</span>
+                        {skipped.map(line => <span key={line}>{line}</span>)}
+                    </div>
+                )}
+
+                {total > 0 && (
+                    <div className="flex flex-col gap-1">
+                        <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                            <div className="h-full bg-yellow-400 transition-all" style={{ width: `${(settled / total) * 100}%` }} />
+                        </div>
+                        <span className="text-xs text-neutral-400">{settled} of {total} images · {photos.length} {photos.length === 1 ? 'photo' : 'photos'}</span>
+                    </div>
+                )}
+
+                {photos.length === 0 ? (
+                    <p className="text-neutral-500 text-sm">Add guest photos, or a whole folder of them, to run them all through the current destinations.</p>
+                ) : (
+                    <ul className="flex flex-col gap-3">
+                        {photos.map(photo => {
+                            const done = eras.filter(era => getSelectedVariant(photo.results[era.id])).length;
+                            const failed = eras.filter(era => ['error', 'cancelled'].includes(photo.results[era.id]?.status)).length;
+                            return (
+                                <li key={photo.id} className="bg-black/30 border border-white/10 rounded-sm p-3 flex flex-col gap-2">
+                                    <div className="flex items-center justify-between gap-3 text-sm">
+                                        <span className="font-permanent-marker text-neutral-200 truncate">{photo.name}</span>
+                                        <span className="text-xs text-neutral-500 whitespace-nowrap">
+                                            {done}/{eras.length} done{failed > 0 && `, ${failed} failed`}
+                                            {!isRunning && (
+                                                <button onClick={() => handleRemove(photo.id)} className="ml-3 text-red-400 hover:text-red-300">Remove</button>
+                                            )}
+                                        </span>
+                                    </div>
+                                    <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+                                        <img src={photo.source} alt={photo.name} className="aspect-square w-full object-cover rounded-sm ring-1 ring-yellow-400/60" />
+                                        {eras.map(era => {
+                                            const result = photo.results[era.id];
+                                            const variant = getSelectedVariant(result);
+                                            return (
+                                                <div key={era.id} className="aspect-square bg-black/40 rounded-sm overflow-hidden flex items-center justify-center" title={result?.error ?? era.caption}>
+                                                    {variant ? (
+                                                        <img src={variant.url} alt={`${photo.name}, ${era.caption}`} className="w-full h-full object-cover" />
+                                                    ) : (
+                                                        <span className={cn(
+                                                            "text-[10px] text-center px-1",
+                                                            result?.status === 'pending' ? "text-neutral-400 animate-pulse" : result?.status === 'error' ? "text-red-400" : "text-neutral-600",
+                                                        )}>
+                                                            {era.caption}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </motion.div>
+    );
+};
+
+export default BatchMode;
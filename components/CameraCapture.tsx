@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { cn } from '../lib/utils.ts';
+
+interface CameraCaptureProps {
+    /** Receives the captured frame as a JPEG data URL. */
+    onCapture: (dataUrl: string) => void;
+    onCancel: () => void;
+}
+
+const TIMER_OPTIONS = [0, 3, 5, 10];
+
+const buttonClasses = "font-permanent-marker text-sm py-2 px-4 rounded-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+function describeCameraError(err: unknown): string {
+    const name = err instanceof DOMException ? err.name : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') return "Camera access was blocked. Allow it in your browser's site settings.";
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No camera was found.";
+    if (name === 'NotReadableError') return "The camera is being used by another app.";
+    return "Could not start the camera.";
+}
+
+/**
+ * A live camera viewfinder in a polaroid frame, with a self-timer, retake and mirroring.
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isReady, setIsReady] = useState(false);
+    // Selfie cameras feel natural mirrored, but booth operators may want the true image
+    const [isMirrored, setIsMirrored] = useState(true);
+    const [timer, setTimer] = useState(3);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [captured, setCaptured] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setError("This browser can't use a camera here. Camera access needs HTTPS.");
+            return;
+        }
+        let stream: MediaStream | null = null;
+        let isCancelled = false;
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 1280 } }, audio: false })
+            .then(media => {
+                if (isCancelled) {
+                    media.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = media;
+                if (videoRef.current) {
+                    videoRef.current.srcObject = media;
+                    videoRef.current.play().catch(() => {});
+                }
+            })
+            .catch(err => {
+                console.error("Camera error:", err);
+                if (!isCancelled) setError(describeCameraError(err));
+            });
+        return () => {
+            isCancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    const takePhoto = () => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth) return;
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        // Keep what the user saw in the viewfinder
+        if (isMirrored) {
+            ctx.translate(canvas.width, 0);
+            ctx.scale(-1, 1);
+        }
+        ctx.drawImage(video, 0, 0);
+        setCaptured(canvas.toDataURL('image/jpeg', 0.92));
+    };
+
+    useEffect(() => {
+        if (countdown === null) return;
+        if (countdown === 0) {
+            setCountdown(null);
+            takePhoto();
+            return;
+        }
+        const id = setTimeout(() => setCountdown(countdown - 1), 1000);
+        return () => clearTimeout(id);
+    }, [countdown]);
+
+    const handleShutter = () => {
+        if (timer === 0) takePhoto();
+        else setCountdown(timer);
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-6">
+            <div className="bg-neutral-100 !p-4 !pb-16 flex flex-col items-center justify-start aspect-[3/4] w-80 max-w-full rounded-md shadow-lg relative">
+                <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden">
+                    <video
+                        ref={videoRef}
+                        muted
+                        playsInline
+                        onLoadedData={() => setIsReady(true)}
+                        className={cn("w-full h-full object-cover", isMirrored && "-scale-x-100", captured && "hidden")}
+                    />
+                    {captured && <img src={captured} alt="Captured photo" className="w-full h-full object-cover" />}
+                    {!isReady && !error && (
+                        <p className="absolute inset-0 flex items-center justify-center font-permanent-marker text-neutral-500">Starting camera...</p>
+                    )}
+                    {error && (
+                        <p className="absolute inset-0 flex items-center justify-center p-4 text-center font-permanent-marker text-sm text-red-400">{error}</p>
+                    )}
+                    <AnimatePresence>
+                        {countdown !== null && countdown > 0 && (
+                            <motion.span
+                                key={countdown}
+                                className="absolute inset-0 flex items-center justify-center font-permanent-marker text-8xl text-white drop-shadow-lg"
+                                initial={{ opacity: 0, scale: 1.5 }}
+                                animate={{ opacity: 1, scale: 1 }}
+                                exit={{ opacity: 0 }}
+                            >
+                                {countdown}
+                            </motion.span>
+                        )}
+                    </AnimatePresence>
+                </div>
+                <div className="absolute bottom-4 left-4 right-4 text-center px-2">
+                    <p className="font-permanent-marker text-lg truncate text-black">{captured ? "Looking good" : "Say cheese"}</p>
+                </div>
+            </div>
+
+            {captured ? (
+                <div className="flex items-center gap-3">
+                    <button onClick={() => setCaptured(null)} className={cn(buttonClasses, "text-white bg-white/10 border border-white/60 hover:bg-white hover:text-black")}>
+                        Retake
+                    </button>
+                    <button onClick={() => onCapture(captured)} className={cn(buttonClasses, "text-black bg-yellow-400 hover:bg-yellow-300")}>
+                        Use Photo
+                    </button>
+                </div>
+            ) : (
+                <div className="flex flex-col items-center gap-3">
+                    <div className="flex items-center gap-3">
+                        <button onClick={onCancel} className={cn(buttonClasses, "text-white bg-white/10 border border-white/60 hover:bg-white hover:text-black")}>
+                            Back
+                        </button>
+                        <button
+                            onClick={handleShutter}
+                            disabled={!isReady || countdown !== null}
+                            className={cn(buttonClasses, "text-black bg-yellow-400 hover:bg-yellow-300")}
+                        >
+                            {countdown !== null ? 'Get ready...' : 'Take Photo'}
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-4 text-xs text-neutral-400">
+                        <label className="flex items-center gap-2">
+                            Timer
+                            <select
+                                value={timer}
+                                onChange={(e) => setTimer(Number(e.target.value))}
+                                disabled={countdown !== null}
+                                className="bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-neutral-100 focus:outline-none focus:border-yellow-400"
+                            >
+                                {TIMER_OPTIONS.map(seconds => (
+                                    <option key={seconds} value={seconds}>{seconds === 0 ? 'Off' : `${seconds}s`}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input type="checkbox" checked={isMirrored} onChange={(e) => setIsMirrored(e.target.checked)} className="accent-yellow-400" />
+                            Mirror
+                        </label>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CameraCapture;
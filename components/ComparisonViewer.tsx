@@ -0,0 +1,213 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { slugify } from '../lib/utils.ts';
+import { type AlbumEntry, createComparisonImage } from '../lib/albumUtils.ts';
+
+interface ComparisonViewerProps {
+    sourceImage: string;
+    /** The finished results to step through. */
+    entries: AlbumEntry[];
+    initialIndex?: number;
+    onClose: () => void;
+}
+
+type DragMode = { kind: 'split' } | { kind: 'pan'; pointerX: number; pointerY: number; panX: number; panY: number };
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+// How far one arrow key press moves the split, in percent; Shift moves it further
+const SPLIT_STEP = 5;
+const SPLIT_STEP_LARGE = 20;
+
+const navButtonClasses = "p-3 rounded-full bg-white/10 text-white hover:bg-white hover:text-black transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+/**
+ * Full-screen before/after viewer: the source photo and a result under a draggable split,
+ * zoomed and panned together.
+ */
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ sourceImage, entries, initialIndex = 0, onClose }) => {
+    const [index, setIndex] = useState(Math.min(initialIndex, entries.length - 1));
+    // Percentage of the frame, from the left, showing the source photo
+    const [split, setSplit] = useState(50);
+    const [zoom, setZoom] = useState(1);
+    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [isExporting, setIsExporting] = useState(false);
+    const frameRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<DragMode | null>(null);
+    const entry = entries[index];
+
+    // Keeps the zoomed image covering the frame, so no empty edges show
+    const clampPan = (x: number, y: number, scale: number) => {
+        const size = frameRef.current?.clientWidth ?? 0;
+        const limit = ((scale - 1) * size) / 2;
+        return { x: Math.min(limit, Math.max(-limit, x)), y: Math.min(limit, Math.max(-limit, y)) };
+    };
+
+    const applyZoom = (scale: number) => {
+        const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale));
+        setZoom(next);
+        setPan(prev => clampPan(prev.x, prev.y, next));
+    };
+
+    const step = (delta: number) => {
+        setIndex(prev => (prev + delta + entries.length) % entries.length);
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'ArrowRight') step(1);
+            else if (e.key === 'ArrowLeft') step(-1);
+            else if (e.key === 'Escape') onClose();
+            else if (e.key === '+' || e.key === '=') applyZoom(zoom * ZOOM_STEP);
+            else if (e.key === '-') applyZoom(zoom / ZOOM_STEP);
+            else if (e.key === '0') applyZoom(1);
+            else return;
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [zoom, entries.length, onClose]);
+
+    const moveSplit = (clientX: number) => {
+        const bounds = frameRef.current?.getBoundingClientRect();
+        if (!bounds) return;
+        setSplit(Math.min(100, Math.max(0, ((clientX - bounds.left) / bounds.width) * 100)));
+    };
+
+    // While the handle has focus, arrow keys move the split rather than changing era
+    const handleSplitKeyDown = (e: React.KeyboardEvent) => {
+        const stepSize = e.shiftKey ? SPLIT_STEP_LARGE : SPLIT_STEP;
+        const moves: Record<string, (value: number) => number> = {
+            ArrowLeft: value => value - stepSize,
+            ArrowRight: value => value + stepSize,
+            Home: () => 0,
+            End: () => 100,
+        };
+        const move = moves[e.key];
+        if (!move) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setSplit(prev => Math.min(100, Math.max(0, move(prev))));
+    };
+
+    const handlePointerDown = (e: React.PointerEvent, kind: DragMode['kind']) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        if (kind === 'split') {
+            dragRef.current = { kind };
+            moveSplit(e.clientX);
+        } else {
+            dragRef.current = { kind, pointerX: e.clientX, pointerY: e.clientY, panX: pan.x, panY: pan.y };
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        if (drag.kind === 'split') {
+            moveSplit(e.clientX);
+        } else {
+            setPan(clampPan(drag.panX + e.clientX - drag.pointerX, drag.panY + e.clientY - drag.pointerY, zoom));
+        }
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const image = await createComparisonImage({ caption: 'Your Photo', url: sourceImage }, entry);
+            const link = document.createElement('a');
+            link.href = image;
+            link.download = `past-forward-compare-${slugify(entry.caption) || index + 1}.jpg`;
+            link.click();
+        } catch (error) {
+            console.error("Comparison export error:", error);
+            alert("Could not create the comparison image. Please try again.");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const layerStyle = {
+        transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+    };
+
+    if (!entry) return null;
+
+    return (
+        <motion.div
+            className="fixed inset-0 z-[60] bg-black/95 flex flex-col items-center justify-center gap-4 p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+        >
+            <div className="w-full max-w-5xl flex items-center justify-between text-sm">
+                <span className="font-permanent-marker text-neutral-400">{index + 1} / {entries.length}</span>
+                <div className="flex items-center gap-3">
+                    <button onClick={() => applyZoom(zoom / ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} className="text-neutral-300 hover:text-white disabled:opacity-30 px-2" aria-label="Zoom out">−</button>
+                    <span className="text-neutral-500 w-12 text-center">{Math.round(zoom * 100)}%</span>
+                    <button onClick={() => applyZoom(zoom * ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} className="text-neutral-300 hover:text-white disabled:opacity-30 px-2" aria-label="Zoom in">+</button>
+                    <button
+                        onClick={handleExport}
+                        disabled={isExporting}
+                        className="font-permanent-marker text-black bg-yellow-400 py-1.5 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-50"
+                    >
+                        {isExporting ? 'Saving...' : 'Save Side-by-Side'}
+                    </button>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white">Close</button>
+                </div>
+            </div>
+
+            <div className="flex items-center gap-4">
+                <button onClick={() => step(-1)} disabled={entries.length < 2} className={navButtonClasses} aria-label="Previous era">‹</button>
+                <div
+                    ref={frameRef}
+                    className="relative aspect-square w-[min(80vw,75vh)] overflow-hidden rounded-sm bg-neutral-900 select-none touch-none"
+                    style={{ cursor: zoom > 1 ? 'grab' : 'default' }}
+                    onPointerDown={(e) => { if (zoom > 1) handlePointerDown(e, 'pan'); }}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => { dragRef.current = null; }}
+                    onWheel={(e) => applyZoom(zoom * Math.exp(-e.deltaY * 0.002))}
+                >
+                    <div className="absolute inset-0 overflow-hidden">
+                        <img src={entry.url} alt={entry.caption} className="w-full h-full object-cover" style={layerStyle} draggable={false} />
+                    </div>
+                    <div className="absolute inset-0 overflow-hidden" style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}>
+                        <img src={sourceImage} alt="Your photo" className="w-full h-full object-cover" style={layerStyle} draggable={false} />
+                    </div>
+
+                    <span className="absolute top-3 left-3 font-permanent-marker text-sm text-white bg-black/50 rounded-sm px-2 py-0.5">Your Photo</span>
+                    <span className="absolute top-3 right-3 font-permanent-marker text-sm text-white bg-black/50 rounded-sm px-2 py-0.5">{entry.caption}</span>
+
+                    <div
+                        className="absolute inset-y-0 -ml-4 w-8 flex justify-center cursor-ew-resize group focus:outline-none"
+                        style={{ left: `${split}%` }}
+                        onPointerDown={(e) => handlePointerDown(e, 'split')}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={() => { dragRef.current = null; }}
+                        onKeyDown={handleSplitKeyDown}
+                        tabIndex={0}
+                        role="slider"
+                        aria-label="Before and after split"
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={Math.round(split)}
+                        aria-valuetext={`${Math.round(split)}% your photo`}
+                    >
+                        <div className="w-0.5 h-full bg-white shadow-[0_0_6px_rgba(0,0,0,0.6)]" />
+                        <div className="absolute top-1/2 -translate-y-1/2 h-8 w-8 rounded-full bg-white text-black flex items-center justify-center text-xs font-bold shadow-lg group-focus-visible:ring-2 group-focus-visible:ring-yellow-400">↔</div>
+                    </div>
+                </div>
+                <button onClick={() => step(1)} disabled={entries.length < 2} className={navButtonClasses} aria-label="Next era">›</button>
+            </div>
+
+            <p className="text-xs text-neutral-500">Drag or focus the line to compare · Scroll or +/− to zoom · ← → to change era</p>
+        </motion.div>
+    );
+};
+
+export default ComparisonViewer;
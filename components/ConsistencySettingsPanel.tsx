@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { ConsistencySettings } from '../lib/faceSimilarity.ts';
+
+interface ConsistencySettingsPanelProps {
+    settings: ConsistencySettings;
+    onChange: (settings: ConsistencySettings) => void;
+}
+
+const ConsistencySettingsPanel: React.FC<ConsistencySettingsPanelProps> = ({ settings, onChange }) => {
+    const update = (changes: Partial<ConsistencySettings>) => onChange({ ...settings, ...changes });
+
+    return (
+        <div className="w-full max-w-md bg-neutral-900/80 backdrop-blur-sm border border-white/10 rounded-md p-4 flex flex-col gap-3">
+            <label className="flex items-center justify-between gap-3 cursor-pointer">
+                <span className="font-permanent-marker text-lg text-neutral-100">Likeness check</span>
+                <input
+                    type="checkbox"
+                    checked={settings.autoReroll}
+                    onChange={(e) => update({ autoReroll: e.target.checked })}
+                    className="accent-yellow-400 h-4 w-4"
+                />
+            </label>
+            <p className="text-xs text-neutral-500">
+                Every card shows how closely its face matches your photo. Turn this on to re-roll weak matches automatically.
+            </p>
+            {settings.autoReroll && (
+                <div className="flex flex-col gap-2">
+                    <label className="flex flex-col gap-1 text-xs text-neutral-400">
+                        Re-roll below {Math.round(settings.threshold * 100)}% match
+                        <input
+                            type="range" min="0.3" max="0.95" step="0.05"
+                            value={settings.threshold}
+                            onChange={(e) => update({ threshold: parseFloat(e.target.value) })}
+                            className="accent-yellow-400"
+                        />
+                    </label>
+                    <label className="flex items-center justify-between gap-2 text-xs text-neutral-400">
+                        Extra attempts per era
+                        <input
+                            type="number" min={1} max={5}
+                            value={settings.maxAttempts}
+                            onChange={(e) => update({ maxAttempts: Math.min(5, Math.max(1, Number(e.target.value) || 1)) })}
+                            className="w-16 bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-sm text-neutral-100 focus:outline-none focus:border-yellow-400"
+                        />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ConsistencySettingsPanel;
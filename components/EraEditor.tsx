@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { cn } from '../lib/utils.ts';
+import { type Era, createEra, DEFAULT_ERAS, getEraPrompts } from '../lib/eraCatalogue.ts';
+import { type EraStyle, ERA_STYLE_SLOTS, getDefaultEraStyle } from '../lib/promptBuilder.ts';
+
+interface EraEditorProps {
+    eras: Era[];
+    onChange: (eras: Era[]) => void;
+}
+
+const iconButtonClasses = "p-1.5 rounded-sm text-neutral-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed";
+const fieldClasses = "w-full bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-sm text-neutral-100 placeholder:text-neutral-600 focus:outline-none focus:border-yellow-400";
+
+const EraEditor: React.FC<EraEditorProps> = ({ eras, onChange }) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const updateEra = (id: string, changes: Partial<Era>) => {
+        onChange(eras.map(era => era.id === id ? { ...era, ...changes } : era));
+    };
+
+    const updateStyle = (era: Era, slot: keyof EraStyle, value: string) => {
+        updateEra(era.id, { style: { ...era.style, [slot]: value || undefined } });
+    };
+
+    const moveEra = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= eras.length) return;
+        const next = [...eras];
+        [next[index], next[target]] = [next[target], next[index]];
+        onChange(next);
+    };
+
+    const removeEra = (id: string) => {
+        onChange(eras.filter(era => era.id !== id));
+    };
+
+    const addEra = () => {
+        const era = createEra();
+        onChange([...eras, era]);
+        setExpandedId(era.id);
+    };
+
+    return (
+        <div className="w-full max-w-md bg-neutral-900/80 backdrop-blur-sm border border-white/10 rounded-md p-4 flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <h2 className="font-permanent-marker text-lg text-neutral-100">Destinations</h2>
+                <button onClick={() => onChange(DEFAULT_ERAS)} className="text-xs text-neutral-500 hover:text-yellow-400 underline">
+                    Reset to decades
+                </button>
+            </div>
+
+            <ul className="flex flex-col gap-2 max-h-[26rem] overflow-y-auto pr-1">
+                {eras.map((era, index) => {
+                    const isExpanded = expandedId === era.id;
+                    return (
+                        <li key={era.id} className="bg-black/30 border border-white/10 rounded-sm p-2">
+                            <div className="flex items-center gap-1">
+                                <input
+                                    value={era.caption}
+                                    onChange={(e) => updateEra(era.id, { caption: e.target.value })}
+                                    placeholder="e.g. Victorian, Y2K"
+                                    className={cn(fieldClasses, "font-permanent-marker", !era.caption.trim() && "border-red-500/60")}
+                                    aria-label="Era caption"
+                                />
+                                <button onClick={() => moveEra(index, -1)} disabled={index === 0} className={iconButtonClasses} title="Move up">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M5 15l7-7 7 7" />
+                                    </svg>
+                                </button>
+                                <button onClick={() => moveEra(index, 1)} disabled={index === eras.length - 1} className={iconButtonClasses} title="Move down">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                                    </svg>
+                                </button>
+                                <button onClick={() => setExpandedId(isExpanded ? null : era.id)} className={iconButtonClasses} title="Edit style">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                    </svg>
+                                </button>
+                                <button onClick={() => removeEra(era.id)} disabled={eras.length === 1} className={iconButtonClasses} title="Remove">
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                                    </svg>
+                                </button>
+                            </div>
+                            {isExpanded && (
+                                <div className="mt-2 flex flex-col gap-2">
+                                    {ERA_STYLE_SLOTS.map(({ name, label }) => (
+                                        <label key={name} className="text-xs text-neutral-400">
+                                            {label}
+                                            <input
+                                                value={era.style?.[name] ?? ''}
+                                                onChange={(e) => updateStyle(era, name, e.target.value)}
+                                                placeholder={getDefaultEraStyle(era.caption)[name]}
+                                                className={cn(fieldClasses, "mt-1")}
+                                            />
+                                        </label>
+                                    ))}
+                                    <label className="text-xs text-neutral-400">
+                                        Custom template <span className="text-neutral-600">(optional; use {'{subject}'}, {'{era}'}, {'{clothing}'}, ...)</span>
+                                        <textarea
+                                            value={era.promptTemplate ?? ''}
+                                            onChange={(e) => updateEra(era.id, { promptTemplate: e.target.value || undefined })}
+                                            rows={2}
+                                            className={cn(fieldClasses, "mt-1 resize-y")}
+                                        />
+                                    </label>
+                                    <label className="text-xs text-neutral-400">
+                                        Fallback prompt <span className="text-neutral-600">(optional, used if the first is blocked)</span>
+                                        <textarea
+                                            value={era.fallbackPrompt ?? ''}
+                                            onChange={(e) => updateEra(era.id, { fallbackPrompt: e.target.value || undefined })}
+                                            rows={2}
+                                            className={cn(fieldClasses, "mt-1 resize-y")}
+                                        />
+                                    </label>
+                                    <p className="text-xs text-neutral-500 italic leading-snug">{getEraPrompts(era).prompt}</p>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <button
+                onClick={addEra}
+                className="font-permanent-marker text-sm text-neutral-200 border border-dashed border-white/30 rounded-sm py-2 hover:border-yellow-400 hover:text-yellow-400"
+            >
+                + Add era
+            </button>
+        </div>
+    );
+};
+
+export default EraEditor;
@@ -5,6 +5,7 @@
 */
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { getImageProvider } from '../services/imageProvider.ts';
 
 const REMIX_IDEAS = [
     "to try different hairstyles.",
@@ -31,7 +32,7 @@ const Footer = () => {
             <div className="max-w-screen-xl mx-auto flex justify-between items-center gap-4 px-4">
                 {/* Left Side */}
                 <div className="hidden md:flex items-center gap-4 text-neutral-500 whitespace-nowrap">
-                    <p>Powered by Gemini 3 Pro Image Preview</p>
+                    <p>Powered by {getImageProvider().label}</p>
                     <span className="text-neutral-700" aria-hidden="true">|</span>
                     <p>
                         Created by{' '}
@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils.ts';
+import { getSelectedVariant } from '../lib/variants.ts';
+import { getGenerationTargets } from '../lib/subjects.ts';
+import {
+    type StoredSession,
+    type StorageUsage,
+    deleteSession,
+    getRetentionLimit,
+    getStorageUsage,
+    listSessions,
+    pruneSessions,
+    setRetentionLimit,
+} from '../lib/sessionStore.ts';
+
+interface HistoryPanelProps {
+    activeSessionId: string | null;
+    onOpen: (session: StoredSession) => void;
+    onDeleted: (id: string) => void;
+    onClose: () => void;
+}
+
+const MAX_COMPARED = 2;
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+function countFinished(session: StoredSession): number {
+    return Object.values(session.results).filter(result => getSelectedVariant(result)).length;
+}
+
+function countTargets(session: StoredSession): number {
+    return getGenerationTargets(session.eras, session.subjects ?? [], session.subjectMode ?? 'together').length;
+}
+
+/**
+ * Side-by-side grid of two or more sessions, one row per era caption.
+ */
+const SessionComparison = ({ sessions, onBack }: { sessions: StoredSession[]; onBack: () => void }) => {
+    const captions = [...new Set(sessions.flatMap(session => session.eras.map(era => era.caption)))];
+    const findResult = (session: StoredSession, caption: string) => {
+        const era = session.eras.find(e => e.caption === caption);
+        if (!era) return undefined;
+        // People generated separately have a result each; compare the first
+        return session.results[era.id] ?? Object.entries(session.results).find(([id]) => id.startsWith(`${era.id}:`))?.[1];
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <button onClick={onBack} className="self-start text-sm text-neutral-400 hover:text-yellow-400 underline">
+                Back to history
+            </button>
+            <div className="grid gap-3" style={{ gridTemplateColumns: `6rem repeat(${sessions.length}, minmax(0, 1fr))` }}>
+                <div />
+                {sessions.map(session => (
+                    <div key={session.id} className="flex flex-col items-center gap-1">
+                        <img src={session.sourceImage} alt="Source photo" className="w-20 h-20 object-cover rounded-sm" />
+                        <span className="text-xs text-neutral-500">{new Date(session.createdAt).toLocaleString()}</span>
+                    </div>
+                ))}
+                {captions.map(caption => (
+                    <React.Fragment key={caption}>
+                        <div className="font-permanent-marker text-neutral-300 self-center">{caption}</div>
+                        {sessions.map(session => {
+                            const result = findResult(session, caption);
+                            const variant = getSelectedVariant(result);
+                            return (
+                                <div key={session.id} className="aspect-square bg-black/40 rounded-sm overflow-hidden flex items-center justify-center">
+                                    {variant ? (
+                                        <img src={variant.url} alt={caption} className="w-full h-full object-cover" />
+                                    ) : (
+                                        <span className="text-xs text-neutral-600">{result?.error ?? '—'}</span>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </React.Fragment>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ activeSessionId, onOpen, onDeleted, onClose }) => {
+    const [sessions, setSessions] = useState<StoredSession[] | null>(null);
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [retention, setRetention] = useState(getRetentionLimit);
+    // What's typed in the limit box, applied only on blur or Enter so a half-typed "15" never prunes down to 1
+    const [retentionDraft, setRetentionDraft] = useState(() => String(getRetentionLimit()));
+    const [error, setError] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [isComparing, setIsComparing] = useState(false);
+
+    const refresh = async () => {
+        try {
+            const [list, estimate] = await Promise.all([listSessions(), getStorageUsage()]);
+            setSessions(list);
+            setUsage(estimate);
+        } catch (err) {
+            console.error("Could not load history:", err);
+            setSessions([]);
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleDelete = async (id: string) => {
+        try {
+            await deleteSession(id);
+        } catch (err) {
+            console.error("Could not delete session:", err);
+            setError("Could not delete that session. Please try again.");
+            return;
+        }
+        setError(null);
+        setSelectedIds(prev => prev.filter(selected => selected !== id));
+        onDeleted(id);
+        refresh();
+    };
+
+    const applyRetentionDraft = async () => {
+        const value = Number(retentionDraft);
+        if (retentionDraft.trim() === '' || !Number.isInteger(value) || value < 1) {
+            setRetentionDraft(String(retention));
+            return;
+        }
+        if (value === retention) return;
+        setRetention(value);
+        setRetentionLimit(value);
+        try {
+            await pruneSessions(value);
+            setError(null);
+        } catch (err) {
+            console.error("Could not prune sessions:", err);
+            setError("Could not remove older sessions. Please try again.");
+        }
+        refresh();
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(prev => prev.includes(id)
+            ? prev.filter(selected => selected !== id)
+            : [...prev, id].slice(-MAX_COMPARED));
+    };
+
+    const comparedSessions = (sessions ?? []).filter(session => selectedIds.includes(session.id));
+
+    return (
+        <motion.div
+            className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-3xl max-h-[85vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-md p-6 flex flex-col gap-4"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="font-caveat text-4xl font-bold text-neutral-100">History</h2>
+                    <button onClick={onClose} className="text-neutral-400 hover:text-white" title="Close">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-4 text-xs text-neutral-400">
+                    <span>
+                        {usage
+                            ? `Using ${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} available`
+                            : 'Storage usage unavailable in this browser'}
+                    </span>
+                    <label className="flex items-center gap-2">
+                        Keep the last
+                        <input
+                            type="number"
+                            min={1}
+                            value={retentionDraft}
+                            onChange={(e) => setRetentionDraft(e.target.value)}
+                            onBlur={applyRetentionDraft}
+                            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                            className="w-16 bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-neutral-100 focus:outline-none focus:border-yellow-400"
+                        />
+                        sessions
+                    </label>
+                </div>
+
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                {isComparing && comparedSessions.length === MAX_COMPARED ? (
+                    <SessionComparison sessions={comparedSessions} onBack={() => setIsComparing(false)} />
+                ) : (
+                    <>
+                        {sessions === null && <p className="text-neutral-500">Loading...</p>}
+                        {sessions?.length === 0 && <p className="font-permanent-marker text-neutral-500">No saved sessions yet.</p>}
+                        <ul className="flex flex-col gap-2">
+                            {sessions?.map(session => (
+                                <li
+                                    key={session.id}
+                                    className={cn(
+                                        "flex items-center gap-4 bg-black/30 border rounded-sm p-2",
+                                        session.id === activeSessionId ? "border-yellow-400/60" : "border-white/10",
+                                    )}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedIds.includes(session.id)}
+                                        onChange={() => toggleSelected(session.id)}
+                                        aria-label="Select for comparison"
+                                    />
+                                    <img src={session.sourceImage} alt="Source photo" className="w-14 h-14 object-cover rounded-sm" />
+                                    <div className="flex-grow min-w-0">
+                                        <p className="text-sm text-neutral-200">{new Date(session.updatedAt).toLocaleString()}</p>
+                                        <p className="text-xs text-neutral-500 truncate">
+                                            {countFinished(session)} of {countTargets(session)} images · {session.eras.map(era => era.caption).join(', ')}
+                                        </p>
+                                    </div>
+                                    <button
+                                        onClick={() => onOpen(session)}
+                                        className="font-permanent-marker text-sm text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+                                    >
+                                        Open
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(session.id)}
+                                        className="text-neutral-500 hover:text-red-400"
+                                        title="Delete"
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                            <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                        </svg>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                        {(sessions?.length ?? 0) > 1 && (
+                            <button
+                                onClick={() => setIsComparing(true)}
+                                disabled={comparedSessions.length !== MAX_COMPARED}
+                                className="self-end font-permanent-marker text-sm text-neutral-200 border border-white/40 rounded-sm py-1.5 px-4 hover:bg-white hover:text-black disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-neutral-200"
+                            >
+                                Compare selected ({comparedSessions.length}/{MAX_COMPARED})
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+        </motion.div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '../lib/utils.ts';
+import { detectFace } from '../lib/faceSimilarity.ts';
+import { type CropRect, type ImageEdits, DEFAULT_IMAGE_EDITS, FULL_CROP, applyImageEdits, fitCrop } from '../lib/imageEditing.ts';
+
+interface ImageEditorProps {
+    /** The photo as uploaded, before any edits. */
+    image: string;
+    edits: ImageEdits;
+    onApply: (edits: ImageEdits) => void;
+    onClose: () => void;
+}
+
+interface CropDrag {
+    mode: 'move' | 'resize';
+    pointerX: number;
+    pointerY: number;
+    crop: CropRect;
+}
+
+const ASPECT_OPTIONS: { label: string; value: number | null }[] = [
+    { label: 'Free', value: null },
+    { label: '1:1', value: 1 },
+    { label: '3:4', value: 3 / 4 },
+];
+
+const MIN_CROP = 0.1;
+// How much of the crop's height the face should fill when centring on it
+const FACE_SHARE = 0.4;
+
+const toolClasses = "font-permanent-marker text-xs text-neutral-200 bg-white/10 border border-white/20 rounded-sm py-1.5 px-3 hover:bg-white hover:text-black transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+const labelClasses = "flex flex-col gap-1 text-xs text-neutral-400";
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, edits: initialEdits, onApply, onClose }) => {
+    const [edits, setEdits] = useState<ImageEdits>(initialEdits);
+    // The rotated and flipped photo, uncropped, for cropping on top of
+    const [preview, setPreview] = useState<string | null>(null);
+    const [frame, setFrame] = useState({ width: 1, height: 1 });
+    const [isCentring, setIsCentring] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const previewRef = useRef<HTMLImageElement>(null);
+    const dragRef = useRef<CropDrag | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        applyImageEdits(image, { ...edits, crop: FULL_CROP, brightness: 1, contrast: 1 }, 640)
+            .then(url => { if (isCurrent) setPreview(url); })
+            .catch(err => console.error("Could not render the editor preview:", err));
+        return () => { isCurrent = false; };
+    }, [image, edits.rotation, edits.flipHorizontal, edits.flipVertical]);
+
+    const update = (changes: Partial<ImageEdits>) => setEdits(prev => ({ ...prev, ...changes }));
+
+    const handleAspect = (aspect: number | null) => {
+        const { crop } = edits;
+        update({ aspect, crop: fitCrop(frame.width, frame.height, aspect, crop.x + crop.width / 2, crop.y + crop.height / 2) });
+    };
+
+    const handleRotate = (direction: 1 | -1) => {
+        // With a single flip, turning the image clockwise turns what the user sees anticlockwise
+        const delta = edits.flipHorizontal !== edits.flipVertical ? -direction * 90 : direction * 90;
+        update({
+            rotation: (edits.rotation + delta + 360) % 360,
+            crop: fitCrop(frame.height, frame.width, edits.aspect),
+        });
+    };
+
+    const handleFlip = (axis: 'horizontal' | 'vertical') => {
+        const { crop } = edits;
+        if (axis === 'horizontal') {
+            update({ flipHorizontal: !edits.flipHorizontal, crop: { ...crop, x: 1 - crop.x - crop.width } });
+        } else {
+            update({ flipVertical: !edits.flipVertical, crop: { ...crop, y: 1 - crop.y - crop.height } });
+        }
+    };
+
+    const handleCentreFace = async () => {
+        const img = previewRef.current;
+        if (!img) return;
+        setIsCentring(true);
+        setNotice(null);
+        const face = await detectFace(img);
+        setIsCentring(false);
+        if (!face) {
+            setNotice("Couldn't find a face to centre on. Drag the crop instead.");
+            return;
+        }
+        // Generation asks for square images, so frame the face square unless a shape was chosen
+        const aspect = edits.aspect ?? 1;
+        const fullCrop = fitCrop(frame.width, frame.height, aspect);
+        const faceHeight = face.height / img.naturalHeight;
+        const scale = Math.min(1, faceHeight / FACE_SHARE / fullCrop.height);
+        const centreX = (face.x + face.width / 2) / img.naturalWidth;
+        const centreY = (face.y + face.height / 2) / img.naturalHeight;
+        update({ aspect, crop: fitCrop(frame.width, frame.height, aspect, centreX, centreY, scale) });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent, mode: CropDrag['mode']) => {
+        e.preventDefault();
+        e.stopPropagation();
+        (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+        dragRef.current = { mode, pointerX: e.clientX, pointerY: e.clientY, crop: edits.crop };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        const bounds = previewRef.current?.getBoundingClientRect();
+        if (!drag || !bounds) return;
+        const dx = (e.clientX - drag.pointerX) / bounds.width;
+        const dy = (e.clientY - drag.pointerY) / bounds.height;
+        const start = drag.crop;
+
+        if (drag.mode === 'move') {
+            update({
+                crop: {
+                    ...start,
+                    x: Math.min(1 - start.width, Math.max(0, start.x + dx)),
+                    y: Math.min(1 - start.height, Math.max(0, start.y + dy)),
+                },
+            });
+            return;
+        }
+
+        let width = Math.min(1 - start.x, Math.max(MIN_CROP, start.width + dx));
+        let height = Math.min(1 - start.y, Math.max(MIN_CROP, start.height + dy));
+        if (edits.aspect) {
+            // Fractions of different sides, so convert through pixels to hold the shape
+            const heightPerWidth = frame.width / (edits.aspect * frame.height);
+            height = width * heightPerWidth;
+            if (height > 1 - start.y) {
+                height = 1 - start.y;
+                width = height / heightPerWidth;
+            }
+        }
+        update({ crop: { ...start, width, height } });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const { crop } = edits;
+
+    return (
+        <motion.div
+            className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+        >
+            <div
+                className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-neutral-900 border border-white/10 rounded-md p-6 flex flex-col md:flex-row gap-6"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex-1 flex items-center justify-center bg-black/40 rounded-sm p-2 min-h-[20rem]">
+                    {preview ? (
+                        <div className="relative inline-block overflow-hidden select-none touch-none">
+                            <img
+                                ref={previewRef}
+                                src={preview}
+                                alt="Your photo"
+                                className="block max-w-full max-h-[60vh]"
+                                style={{ filter: `brightness(${edits.brightness}) contrast(${edits.contrast})` }}
+                                onLoad={(e) => setFrame({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                                draggable={false}
+                            />
+                            <div
+                                className="absolute border-2 border-yellow-400 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+                                style={{ left: `${crop.x * 100}%`, top: `${crop.y * 100}%`, width: `${crop.width * 100}%`, height: `${crop.height * 100}%` }}
+                                onPointerDown={(e) => handlePointerDown(e, 'move')}
+                                onPointerMove={handlePointerMove}
+                                onPointerUp={handlePointerUp}
+                            >
+                                <div className="absolute inset-0 grid grid-cols-3 grid-rows-3 pointer-events-none">
+                                    {Array.from({ length: 9 }, (_, i) => <div key={i} className="border border-white/20" />)}
+                                </div>
+                                <div
+                                    className="absolute -right-2 -bottom-2 h-4 w-4 bg-yellow-400 rounded-sm cursor-nwse-resize"
+                                    onPointerDown={(e) => handlePointerDown(e, 'resize')}
+                                    onPointerMove={handlePointerMove}
+                                    onPointerUp={handlePointerUp}
+                                />
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="font-permanent-marker text-neutral-500">Loading...</p>
+                    )}
+                </div>
+
+                <div className="w-full md:w-64 flex flex-col gap-4">
+                    <h2 className="font-caveat text-4xl font-bold text-neutral-100">Edit Photo</h2>
+
+                    <div className="flex flex-col gap-2">
+                        <span className="text-xs text-neutral-400">Crop</span>
+                        <div className="flex flex-wrap gap-2">
+                            {ASPECT_OPTIONS.map(option => (
+                                <button
+                                    key={option.label}
+                                    onClick={() => handleAspect(option.value)}
+                                    className={cn(toolClasses, edits.aspect === option.value && "bg-yellow-400 text-black border-yellow-400")}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        <button onClick={handleCentreFace} disabled={!preview || isCentring} className={toolClasses}>
+                            {isCentring ? 'Looking...' : 'Centre on Face'}
+                        </button>
+                        {notice && <p className="text-xs text-neutral-500">{notice}</p>}
+                    </div>
+
+                    <div className="flex flex-col gap-2">
+                        <span className="text-xs text-neutral-400">Rotate &amp; flip</span>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => handleRotate(-1)} className={toolClasses}>Rotate Left</button>
+                            <button onClick={() => handleRotate(1)} className={toolClasses}>Rotate Right</button>
+                            <button onClick={() => handleFlip('horizontal')} className={toolClasses}>Flip ↔</button>
+                            <button onClick={() => handleFlip('vertical')} className={toolClasses}>Flip ↕</button>
+                        </div>
+                    </div>
+
+                    <label className={labelClasses}>
+                        Brightness {Math.round(edits.brightness * 100)}%
+                        <input
+                            type="range" min="0.5" max="1.5" step="0.05"
+                            value={edits.brightness}
+                            onChange={(e) => update({ brightness: parseFloat(e.target.value) })}
+                            className="accent-yellow-400"
+                        />
+                    </label>
+                    <label className={labelClasses}>
+                        Contrast {Math.round(edits.contrast * 100)}%
+                        <input
+                            type="range" min="0.5" max="1.5" step="0.05"
+                            value={edits.contrast}
+                            onChange={(e) => update({ contrast: parseFloat(e.target.value) })}
+                            className="accent-yellow-400"
+                        />
+                    </label>
+
+                    <div className="flex flex-wrap gap-2 mt-auto pt-2">
+                        <button onClick={() => setEdits(DEFAULT_IMAGE_EDITS)} className="font-permanent-marker text-sm text-neutral-400 py-2 px-3 hover:text-white">
+                            Reset
+                        </button>
+                        <button onClick={onClose} className="font-permanent-marker text-sm text-neutral-300 py-2 px-3 hover:text-white">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={() => onApply(edits)}
+                            disabled={!preview}
+                            className="font-permanent-marker text-sm text-black bg-yellow-400 py-2 px-4 rounded-sm hover:bg-yellow-300 disabled:opacity-50"
+                        >
+                            Apply
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </motion.div>
+    );
+};
+
+export default ImageEditor;
@@ -0,0 +1,336 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, animate, motion, useMotionValue, useReducedMotion } from 'framer-motion';
+import type { GenerationTarget } from '../lib/subjects.ts';
+import { isMotionSupported, needsMotionPermission, requestMotionPermission, watchShake } from '../lib/deviceShake.ts';
+import { cn } from '../lib/utils.ts';
+
+interface MobileCardDeckProps {
+    targets: GenerationTarget[];
+    renderCard: (target: GenerationTarget) => React.ReactNode;
+    /** Re-rolls a card, from a phone shake or the action sheet. */
+    onRegenerate: (target: GenerationTarget) => void;
+    onDownload: (target: GenerationTarget) => void;
+    onShare: (target: GenerationTarget) => void;
+    /** Whether the card has a photo to download or share yet. */
+    isFinished: (target: GenerationTarget) => boolean;
+}
+
+type Point = { x: number; y: number };
+
+// 'ask' waits for a tap to show the iOS motion prompt
+type ShakeAccess = 'unsupported' | 'ask' | 'on' | 'denied';
+
+interface Gesture {
+    start: Point;
+    /** Zoomed pan offset when the gesture began. */
+    panStart: Point;
+    /** Set once the finger travels, so the gesture is no longer a tap or a long press. */
+    moved: boolean;
+    pinch?: { distance: number; zoom: number };
+    /** Set once a second finger lands; the gesture then never swipes or taps. */
+    pinched: boolean;
+}
+
+const SWIPE_DISTANCE = 60;
+const LONG_PRESS_MS = 500;
+// Finger travel that turns a press into a swipe or pan
+const MOVE_TOLERANCE = 10;
+const DOUBLE_TAP_MS = 300;
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2;
+
+const navButtonClasses = "p-3 rounded-full bg-black/60 text-white hover:bg-white hover:text-black transition-colors disabled:opacity-30";
+const sheetButtonClasses = "w-full font-permanent-marker text-lg py-3 rounded-sm bg-white/10 text-neutral-100 hover:bg-white/20 disabled:opacity-40";
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const distanceBetween = ([a, b]: Point[]) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * The results on a phone: one card at a time, swiped between decades. Pinch or double-tap zooms into a card,
+ * a long press opens its actions, and shaking the phone re-rolls the card on show.
+ */
+const MobileCardDeck: React.FC<MobileCardDeckProps> = ({ targets, renderCard, onRegenerate, onDownload, onShare, isFinished }) => {
+    const [index, setIndex] = useState(0);
+    const [direction, setDirection] = useState<1 | -1>(1);
+    const [isZoomed, setIsZoomed] = useState(false);
+    const [sheetTarget, setSheetTarget] = useState<GenerationTarget | null>(null);
+    const [shakeAccess, setShakeAccess] = useState<ShakeAccess>(() =>
+        !isMotionSupported() ? 'unsupported' : needsMotionPermission() ? 'ask' : 'on');
+    const reduceMotion = useReducedMotion();
+
+    const swipeX = useMotionValue(0);
+    const zoom = useMotionValue(1);
+    const panX = useMotionValue(0);
+    const panY = useMotionValue(0);
+    const pointers = useRef(new Map<number, Point>());
+    const gesture = useRef<Gesture | null>(null);
+    const longPressTimer = useRef<number | undefined>(undefined);
+    const lastTap = useRef(0);
+
+    const current = Math.min(index, targets.length - 1);
+    const target = targets[current];
+
+    // The shake listener outlives renders, so it reads the card on show and the latest handler through a ref
+    const shakeRef = useRef<() => void>(() => {});
+    shakeRef.current = () => { if (target) onRegenerate(target); };
+
+    useEffect(() => {
+        if (shakeAccess !== 'on') return undefined;
+        return watchShake(() => shakeRef.current());
+    }, [shakeAccess]);
+
+    useEffect(() => () => window.clearTimeout(longPressTimer.current), []);
+
+    useEffect(() => {
+        if (!sheetTarget) return undefined;
+        const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') setSheetTarget(null); };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [sheetTarget]);
+
+    const handleEnableShake = async () => {
+        setShakeAccess(await requestMotionPermission() ? 'on' : 'denied');
+    };
+
+    const setZoom = (value: number, pan: Point = { x: 0, y: 0 }) => {
+        const transition = reduceMotion ? { duration: 0 } : { type: 'spring' as const, stiffness: 300, damping: 30 };
+        animate(zoom, value, transition);
+        animate(panX, pan.x, transition);
+        animate(panY, pan.y, transition);
+        setIsZoomed(value > 1);
+    };
+
+    const showCard = (next: number) => {
+        if (next < 0 || next >= targets.length || next === current) return;
+        setDirection(next > current ? 1 : -1);
+        setIndex(next);
+        swipeX.set(0);
+        zoom.set(1);
+        panX.set(0);
+        panY.set(0);
+        setIsZoomed(false);
+    };
+
+    const cancelLongPress = () => window.clearTimeout(longPressTimer.current);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (pointers.current.size === 1) {
+            gesture.current = { start: { x: e.clientX, y: e.clientY }, panStart: { x: panX.get(), y: panY.get() }, moved: false, pinched: false };
+            if (e.pointerType !== 'mouse' && target) {
+                const pressed = target;
+                longPressTimer.current = window.setTimeout(() => {
+                    // The rest of the press belongs to the sheet, not a swipe behind it
+                    gesture.current = null;
+                    navigator.vibrate?.(10);
+                    setSheetTarget(pressed);
+                }, LONG_PRESS_MS);
+            }
+        } else if (pointers.current.size === 2 && gesture.current) {
+            cancelLongPress();
+            gesture.current.moved = true;
+            gesture.current.pinched = true;
+            gesture.current.pinch = { distance: distanceBetween([...pointers.current.values()]), zoom: zoom.get() };
+            animate(swipeX, 0);
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const active = gesture.current;
+        if (!active || !pointers.current.has(e.pointerId)) return;
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+        if (active.pinch) {
+            if (pointers.current.size < 2) return;
+            const distance = distanceBetween([...pointers.current.values()]);
+            zoom.set(clamp(active.pinch.zoom * distance / active.pinch.distance, 1, MAX_ZOOM));
+            return;
+        }
+
+        const dx = e.clientX - active.start.x;
+        const dy = e.clientY - active.start.y;
+        if (!active.moved && Math.hypot(dx, dy) > MOVE_TOLERANCE) {
+            active.moved = true;
+            cancelLongPress();
+        }
+        if (!active.moved) return;
+
+        if (zoom.get() > 1) {
+            // Pan no further than the zoomed card's edges
+            const { clientWidth, clientHeight } = e.currentTarget;
+            const limitX = (zoom.get() - 1) * clientWidth / 2;
+            const limitY = (zoom.get() - 1) * clientHeight / 2;
+            panX.set(clamp(active.panStart.x + dx, -limitX, limitX));
+            panY.set(clamp(active.panStart.y + dy, -limitY, limitY));
+        } else if (!active.pinched && Math.abs(dx) > Math.abs(dy)) {
+            // Resist past the first and last cards
+            const atEnd = (dx > 0 && current === 0) || (dx < 0 && current === targets.length - 1);
+            swipeX.set(atEnd ? dx / 4 : dx);
+        }
+    };
+
+    const handlePointerEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+        const wasDown = pointers.current.delete(e.pointerId);
+        const active = gesture.current;
+        if (!active || !wasDown) return;
+        cancelLongPress();
+
+        if (active.pinch) {
+            // Settle the zoom once the pinch ends, snapping back when it's barely zoomed
+            if (pointers.current.size === 1) {
+                const [remaining] = pointers.current.values();
+                active.start = remaining;
+                active.panStart = { x: panX.get(), y: panY.get() };
+                active.pinch = undefined;
+            }
+            if (zoom.get() < 1.1) setZoom(1);
+            else setIsZoomed(true);
+        }
+        if (pointers.current.size > 0) return;
+        gesture.current = null;
+        if (e.type === 'pointercancel') {
+            animate(swipeX, 0);
+            return;
+        }
+
+        const dx = e.clientX - active.start.x;
+        // Quick taps on the card's own buttons stay taps
+        const isControl = Boolean((e.target as HTMLElement).closest('button, input, textarea, a'));
+        if (!active.moved && !isControl) {
+            const now = Date.now();
+            if (now - lastTap.current < DOUBLE_TAP_MS) {
+                lastTap.current = 0;
+                if (isZoomed) {
+                    setZoom(1);
+                } else {
+                    // Zoom in on the tapped spot
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    const pan = {
+                        x: (rect.left + rect.width / 2 - e.clientX) * (DOUBLE_TAP_ZOOM - 1),
+                        y: (rect.top + rect.height / 2 - e.clientY) * (DOUBLE_TAP_ZOOM - 1),
+                    };
+                    setZoom(DOUBLE_TAP_ZOOM, pan);
+                }
+            } else {
+                lastTap.current = now;
+            }
+        } else if (active.moved && !active.pinched && zoom.get() === 1 && Math.abs(dx) > SWIPE_DISTANCE && Math.abs(swipeX.get()) > 0) {
+            const next = current + (dx < 0 ? 1 : -1);
+            if (next >= 0 && next < targets.length) {
+                showCard(next);
+                return;
+            }
+        }
+        animate(swipeX, 0, { type: 'spring', stiffness: 300, damping: 30 });
+    };
+
+    const runAction = (action: (target: GenerationTarget) => void) => {
+        if (!sheetTarget) return;
+        action(sheetTarget);
+        setSheetTarget(null);
+    };
+
+    if (!target) return null;
+
+    const slide = {
+        enter: (step: number) => (reduceMotion ? { opacity: 0 } : { opacity: 0, x: step * 300 }),
+        centre: { opacity: 1, x: 0 },
+        exit: (step: number) => (reduceMotion ? { opacity: 0 } : { opacity: 0, x: step * -300 }),
+    };
+
+    return (
+        <div className="w-full max-w-sm flex-1 flex flex-col items-center mt-4 p-4">
+            <div
+                className="relative w-full flex justify-center overflow-hidden py-4 select-none"
+                style={{ touchAction: isZoomed ? 'none' : 'pan-y', WebkitTouchCallout: 'none' }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerEnd}
+                onPointerCancel={handlePointerEnd}
+                onContextMenu={(e) => e.preventDefault()}
+            >
+                <AnimatePresence initial={false} custom={direction} mode="popLayout">
+                    <motion.div
+                        key={target.id}
+                        custom={direction}
+                        variants={slide}
+                        initial="enter"
+                        animate="centre"
+                        exit="exit"
+                        transition={{ type: 'spring', stiffness: 260, damping: 30 }}
+                    >
+                        <motion.div style={{ x: swipeX }}>
+                            <motion.div style={{ scale: zoom, x: panX, y: panY }}>
+                                {renderCard(target)}
+                            </motion.div>
+                        </motion.div>
+                    </motion.div>
+                </AnimatePresence>
+            </div>
+
+            <div className="flex items-center gap-3 mt-2">
+                <button onClick={() => showCard(current - 1)} disabled={current === 0} className={navButtonClasses} aria-label="Earlier decade">‹</button>
+                <div className="flex flex-wrap justify-center gap-1.5 max-w-[12rem]">
+                    {targets.map((dot, dotIndex) => (
+                        <button
+                            key={dot.id}
+                            onClick={() => showCard(dotIndex)}
+                            className={cn("h-2 w-2 rounded-full transition-colors", dotIndex === current ? "bg-yellow-400" : "bg-white/30")}
+                            aria-label={dot.caption}
+                            aria-current={dotIndex === current ? 'true' : undefined}
+                        />
+                    ))}
+                </div>
+                <button onClick={() => showCard(current + 1)} disabled={current === targets.length - 1} className={navButtonClasses} aria-label="Later decade">›</button>
+            </div>
+
+            <p className="mt-3 text-xs text-neutral-500 text-center">
+                Swipe for more decades, pinch to zoom, hold for options{shakeAccess === 'on' && ', shake to re-roll'}.
+            </p>
+            {shakeAccess === 'ask' && (
+                <button onClick={handleEnableShake} className="mt-2 font-permanent-marker text-sm text-yellow-400 hover:text-yellow-300">
+                    Enable shake to re-roll
+                </button>
+            )}
+            {shakeAccess === 'denied' && (
+                <p className="mt-2 text-xs text-neutral-500 text-center">Motion access is off, so shaking won't re-roll. Allow it in your browser settings.</p>
+            )}
+
+            <AnimatePresence>
+                {sheetTarget && (
+                    <motion.div
+                        className="fixed inset-0 z-[60] bg-black/80 backdrop-blur-sm flex items-end"
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={() => setSheetTarget(null)}
+                    >
+                        <motion.div
+                            role="dialog"
+                            aria-modal="true"
+                            aria-label={`${sheetTarget.caption} actions`}
+                            className="w-full bg-neutral-900 border-t border-white/10 rounded-t-md p-6 pb-10 flex flex-col gap-3"
+                            initial={reduceMotion ? false : { y: '100%' }}
+                            animate={{ y: 0 }}
+                            exit={reduceMotion ? undefined : { y: '100%' }}
+                            transition={{ type: 'spring', stiffness: 300, damping: 32 }}
+                            onClick={(e) => e.stopPropagation()}
+                        >
+                            <p className="font-caveat text-3xl font-bold text-neutral-100 text-center mb-1">{sheetTarget.caption}</p>
+                            <button onClick={() => runAction(onDownload)} disabled={!isFinished(sheetTarget)} className={sheetButtonClasses} autoFocus>Download</button>
+                            <button onClick={() => runAction(onShare)} disabled={!isFinished(sheetTarget)} className={sheetButtonClasses}>Share</button>
+                            <button onClick={() => runAction(onRegenerate)} className={sheetButtonClasses}>Regenerate</button>
+                            <button onClick={() => setSheetTarget(null)} className="w-full py-3 text-neutral-400 hover:text-white">Cancel</button>
+                        </motion.div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+export default MobileCardDeck;
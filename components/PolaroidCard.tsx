@@ -3,46 +3,356 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useId, useRef } from 'react';
 import { DraggableCardContainer, DraggableCardBody } from './ui/draggable-card.tsx';
 import { cn } from '../lib/utils.ts';
 import type { PanInfo } from 'framer-motion';
-
-type ImageStatus = 'pending' | 'done' | 'error';
+import type { GenerationErrorKind, GenerationProgress, ImageStatus } from '../types.ts';
+import { type ProgressHealth, GENERATION_STAGES, getDevelopmentFraction, getProgressHealth } from '../lib/generationProgress.ts';
+import { type FilmFilter, FILM_PRESETS, FILM_PRESET_IDS, applyFilmFilter, createFilmFilter } from '../lib/filmFilters.ts';
 
 interface PolaroidCardProps {
     imageUrl?: string;
     caption: string;
     status: ImageStatus;
     error?: string;
+    errorKind?: GenerationErrorKind;
+    /** While pending: when a backed-off job retries, in epoch milliseconds. After a rate limit: when retrying may work. */
+    retryAt?: number;
+    /** While pending: the job's current stage, which drives the developing animation. */
+    progress?: GenerationProgress;
     dragConstraintsRef?: React.RefObject<HTMLElement>;
+    /** Reports where the card was dragged to, for a desk that keeps its own arrangement. */
+    onMoveEnd?: (offset: { x: number; y: number }) => void;
+    /** Pixels per arrow key move; see DraggableCardBody. */
+    keyStep?: number;
     onShake?: (caption: string) => void;
     onDownload?: (caption: string) => void;
+    onCancel?: (caption: string) => void;
+    /** Opens the before/after comparison for this card. */
+    onCompare?: (caption: string) => void;
+    /** Offered on key errors, to pick a different API key and retry. */
+    onReselectKey?: () => void;
+    prompt?: string;
+    onPromptSubmit?: (prompt: string) => void;
+    /** Every result for this card, oldest first. `imageUrl` is the selected one. */
+    variants?: string[];
+    selectedVariant?: number;
+    onSelectVariant?: (index: number) => void;
+    /** Likeness score of each variant, 0..1, in the same order as `variants`. */
+    consistencyScores?: (number | undefined)[];
+    /** Scores below this are flagged as a weak match. */
+    consistencyThreshold?: number;
+    /** Local film look drawn over the photo. */
+    filmFilter?: FilmFilter;
+    /** Offers the film panel. Called with undefined to remove the look. */
+    onFilmFilterChange?: (filter: FilmFilter | undefined) => void;
     isMobile?: boolean;
+    /** Renders in place rather than draggable, e.g. on the timeline. */
+    isStatic?: boolean;
     isUserPhoto?: boolean;
 }
 
-const LoadingSpinner = () => (
-    <div className="flex flex-col items-center justify-center h-full gap-4 p-4">
-        <svg className="animate-spin h-10 w-10 text-neutral-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-        </svg>
-        <span className="font-permanent-marker text-neutral-500 text-sm text-center">Developing...</span>
-    </div>
+/**
+ * The current time, updated every second while `isActive`.
+ */
+const useNow = (isActive: boolean) => {
+    const [now, setNow] = useState(Date.now());
+    useEffect(() => {
+        if (!isActive) return;
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isActive]);
+    return now;
+};
+
+/**
+ * `url` with `filter` applied, or `url` itself while the look renders or when there is none.
+ */
+const useFilmFilter = (url: string | undefined, filter: FilmFilter | undefined, caption: string) => {
+    const [filtered, setFiltered] = useState<{ source: string; url: string } | null>(null);
+    useEffect(() => {
+        if (!url || !filter) return;
+        let isCurrent = true;
+        applyFilmFilter(url, filter, caption)
+            .then(result => { if (isCurrent) setFiltered({ source: url, url: result }); })
+            .catch(err => console.warn("Could not apply film look:", err));
+        return () => { isCurrent = false; };
+    }, [url, filter, caption]);
+    if (!url || !filter) return url;
+    // Keeps the previous look on screen while a new strength renders, but never another photo's
+    return filtered?.source === url ? filtered.url : url;
+};
+
+const HEALTH_NOTES: Record<ProgressHealth, string | null> = {
+    'ok': null,
+    'slow': 'Taking longer than usual',
+    'stalled': 'This may be stuck. Cancel and try again?',
+};
+
+/**
+ * A print developing in the tray: the emulsion spreads and lightens as the job moves through its stages,
+ * with the stage and how long it has taken written underneath.
+ */
+const DevelopingDisplay = ({ progress, retryAt }: { progress?: GenerationProgress; retryAt?: number }) => {
+    const now = useNow(true);
+    const stage = progress?.stage ?? 'queued';
+    const fraction = getDevelopmentFraction(progress, now);
+    const health = getProgressHealth(progress, now);
+    const elapsed = progress ? Math.max(0, Math.floor((now - progress.since) / 1000)) : 0;
+    const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+    const label = stage === 'retrying' && secondsLeft > 0
+        ? `${GENERATION_STAGES.retrying.label} in ${secondsLeft}s`
+        : `${GENERATION_STAGES[stage].label} · ${elapsed}s`;
+
+    return (
+        <div className="absolute inset-0 bg-[#1b1613] overflow-hidden">
+            <div
+                className="absolute inset-0 transition-all duration-1000 ease-linear"
+                style={{
+                    opacity: 0.15 + fraction * 0.85,
+                    backgroundImage: 'radial-gradient(circle at 45% 40%, #c9b49a 0%, #7a6350 40%, #3a322c 70%, transparent 100%)',
+                    backgroundSize: `${60 + fraction * 140}% ${60 + fraction * 140}%`,
+                    backgroundPosition: 'center',
+                    backgroundRepeat: 'no-repeat',
+                }}
+            />
+            <div className="absolute inset-x-0 bottom-0 p-3 flex flex-col items-center gap-1.5 text-center">
+                <span className="font-permanent-marker text-neutral-300 text-sm drop-shadow">{label}</span>
+                {HEALTH_NOTES[health] && (
+                    <span className={cn("text-[10px] font-bold uppercase tracking-tighter", health === 'stalled' ? "text-red-400" : "text-amber-400")}>
+                        {HEALTH_NOTES[health]}
+                    </span>
+                )}
+                <div className="w-full h-0.5 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-amber-200/70 transition-all duration-1000 ease-linear" style={{ width: `${fraction * 100}%` }} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ConsistencyBadge = ({ score, threshold = 0.6 }: { score: number; threshold?: number }) => (
+    <span
+        className={cn(
+            "absolute bottom-2 left-2 z-20 rounded-full px-2 py-0.5 text-[10px] font-bold text-white tabular-nums",
+            score >= threshold ? "bg-green-700/80" : "bg-amber-600/80",
+        )}
+        title="How closely the face matches your photo"
+    >
+        {Math.round(score * 100)}% match
+    </span>
 );
 
-const ErrorDisplay = ({ message }: { message?: string }) => (
-    <div className="flex flex-col items-center justify-center h-full p-4 text-center">
-         <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+type ErrorAction = 'reselect-key' | 'retry' | 'edit-prompt';
+
+// What to tell the user, and which fix to offer, for each kind of failure
+const ERROR_GUIDANCE: Record<GenerationErrorKind, { title: string; action?: ErrorAction; actionLabel?: string }> = {
+    'auth': { title: 'Key rejected', action: 'reselect-key', actionLabel: 'Select key' },
+    'quota': { title: 'Rate limited', action: 'retry', actionLabel: 'Retry' },
+    'safety': { title: 'Blocked by safety filter', action: 'edit-prompt', actionLabel: 'Edit prompt' },
+    'text-response': { title: 'No image came back', action: 'edit-prompt', actionLabel: 'Edit prompt' },
+    'network': { title: 'Connection problem', action: 'retry', actionLabel: 'Retry' },
+    'invalid-input': { title: 'Try a different photo' },
+    'cancelled': { title: 'Cancelled', action: 'retry', actionLabel: 'Try again' },
+    'unknown': { title: 'Something went wrong', action: 'retry', actionLabel: 'Retry' },
+};
+
+const ErrorDisplay = ({ message, kind = 'unknown', retryAt, onAction }: {
+    message?: string;
+    kind?: GenerationErrorKind;
+    /** Retrying is held back until then, so a rate-limited card doesn't hit the limit again straight away. */
+    retryAt?: number;
+    onAction?: (action: ErrorAction) => void;
+}) => {
+    const { title, action, actionLabel } = ERROR_GUIDANCE[kind];
+    const now = useNow(action === 'retry' && retryAt !== undefined && retryAt > Date.now());
+    const secondsLeft = action === 'retry' && retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+    return (
+        <div className="flex flex-col items-center justify-center h-full p-4 text-center gap-2">
+             <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-red-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <p className="text-red-500 font-bold text-xs uppercase tracking-tighter">{title}</p>
+            {message && <p className="text-neutral-400 text-[10px] line-clamp-3">{message}</p>}
+            {action && onAction && (
+                <button
+                    onClick={(e) => { e.stopPropagation(); onAction(action); }}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    disabled={secondsLeft > 0}
+                    className="font-permanent-marker text-xs text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300 disabled:opacity-50 disabled:hover:bg-yellow-400"
+                >
+                    {secondsLeft > 0 ? `${actionLabel} in ${secondsLeft}s` : actionLabel}
+                </button>
+            )}
+        </div>
+    );
+};
+
+const CancelledDisplay = ({ onRetry }: { onRetry?: () => void }) => (
+    <div className="flex flex-col items-center justify-center h-full p-4 text-center gap-3">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-neutral-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
         </svg>
-        <p className="text-red-500 font-bold text-xs uppercase tracking-tighter line-clamp-3">
-            {message || "API ERROR"}
-        </p>
+        <p className="font-permanent-marker text-neutral-400 text-sm">Cancelled</p>
+        {onRetry && (
+            <button
+                onClick={(e) => { e.stopPropagation(); onRetry(); }}
+                className="font-permanent-marker text-xs text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+            >
+                Try again
+            </button>
+        )}
     </div>
 );
 
+const PromptPanel = ({ prompt, onSubmit, onClose }: { prompt: string; onSubmit: (prompt: string) => void; onClose: () => void }) => {
+    const [draft, setDraft] = useState(prompt);
+    const editorId = useId();
+    return (
+        <div
+            className="absolute inset-0 z-30 bg-neutral-900/95 p-3 flex flex-col gap-2"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <label htmlFor={editorId} className="font-permanent-marker text-xs text-neutral-400">Prompt</label>
+            <textarea
+                id={editorId}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="flex-grow w-full resize-none bg-black/40 border border-white/20 rounded-sm p-2 text-xs text-neutral-100 focus:outline-none focus:border-yellow-400"
+            />
+            <div className="flex justify-end gap-2">
+                <button onClick={onClose} className="font-permanent-marker text-xs text-neutral-300 py-1 px-3 hover:text-white">
+                    Close
+                </button>
+                <button
+                    onClick={() => { onSubmit(draft); onClose(); }}
+                    className="font-permanent-marker text-xs text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300"
+                >
+                    Regenerate
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const FilmPanel = ({ filter, caption, onChange, onClose }: {
+    filter?: FilmFilter;
+    caption: string;
+    onChange: (filter: FilmFilter | undefined) => void;
+    onClose: () => void;
+}) => {
+    const current = filter ?? createFilmFilter(caption);
+    return (
+        <div
+            className="absolute inset-0 z-30 bg-neutral-900/95 p-3 flex flex-col gap-3 text-xs"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <span className="font-permanent-marker text-neutral-400">Film look</span>
+            <div className="grid grid-cols-2 gap-1.5">
+                {FILM_PRESET_IDS.map(id => (
+                    <button
+                        key={id}
+                        onClick={() => onChange({ ...current, preset: id, dateStamp: FILM_PRESETS[id].dateStamp })}
+                        className={cn(
+                            "py-1.5 rounded-sm border font-permanent-marker",
+                            filter?.preset === id ? "bg-yellow-400 text-black border-yellow-400" : "text-neutral-300 border-white/20 hover:border-white/60",
+                        )}
+                    >
+                        {FILM_PRESETS[id].label}
+                    </button>
+                ))}
+            </div>
+            <label className="flex flex-col gap-1 text-neutral-400">
+                <span className="flex justify-between">Strength <span className="tabular-nums">{Math.round(current.strength * 100)}%</span></span>
+                <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={current.strength}
+                    disabled={!filter}
+                    onChange={(e) => onChange({ ...current, strength: Number(e.target.value) })}
+                    className="accent-yellow-400 disabled:opacity-40"
+                />
+            </label>
+            <label className="flex items-center gap-2 text-neutral-300">
+                <input
+                    type="checkbox"
+                    checked={current.dateStamp}
+                    disabled={!filter}
+                    onChange={(e) => onChange({ ...current, dateStamp: e.target.checked })}
+                    className="accent-yellow-400"
+                />
+                Date stamp
+            </label>
+            <div className="mt-auto flex justify-end gap-2">
+                {filter && (
+                    <button onClick={() => onChange(undefined)} className="font-permanent-marker text-neutral-300 py-1 px-3 hover:text-white">
+                        Remove
+                    </button>
+                )}
+                <button onClick={onClose} className="font-permanent-marker text-black bg-yellow-400 py-1 px-3 rounded-sm hover:bg-yellow-300">
+                    Done
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const EditPromptIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+    </svg>
+);
+
+const VariantPicker = ({ count, index, selectedIndex, onFlip, onSelect }: {
+    count: number;
+    index: number;
+    selectedIndex: number;
+    onFlip: (index: number) => void;
+    onSelect?: (index: number) => void;
+}) => {
+    const isFavourite = index === selectedIndex;
+    return (
+        <div
+            className="absolute bottom-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 bg-black/60 rounded-full px-2 py-1 text-white text-xs"
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <button onClick={() => onFlip((index - 1 + count) % count)} className="p-1 hover:text-yellow-400" title="Previous take" aria-label="Previous take">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+                </svg>
+            </button>
+            <span className="tabular-nums" aria-live="polite">{index + 1}/{count}</span>
+            <button onClick={() => onFlip((index + 1) % count)} className="p-1 hover:text-yellow-400" title="Next take" aria-label="Next take">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+                </svg>
+            </button>
+            {onSelect && (
+                <button
+                    onClick={() => onSelect(index)}
+                    className={cn("p-1", isFavourite ? "text-yellow-400" : "hover:text-yellow-400")}
+                    title={isFavourite ? "Favourite" : "Use this take"}
+                    aria-label={isFavourite ? "Favourite take" : "Use this take"}
+                    aria-pressed={isFavourite}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill={isFavourite ? "currentColor" : "none"} stroke="currentColor" strokeWidth={1.5}>
+                        <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                    </svg>
+                </button>
+            )}
+        </div>
+    );
+};
+
+const actionButtonClasses = "p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400";
+
 const Placeholder = () => (
     <div className="flex flex-col items-center justify-center h-full text-neutral-500 group-hover:text-neutral-300 transition-colors duration-300">
         <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
@@ -53,9 +363,13 @@ const Placeholder = () => (
     </div>
 );
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, dragConstraintsRef, onShake, onDownload, isMobile, isUserPhoto }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, error, errorKind, retryAt, progress, dragConstraintsRef, onMoveEnd, keyStep, onShake, onDownload, onCancel, onCompare, onReselectKey, prompt, onPromptSubmit, variants, selectedVariant = 0, onSelectVariant, consistencyScores, consistencyThreshold, filmFilter, onFilmFilterChange, isMobile, isStatic, isUserPhoto }) => {
     const [isDeveloped, setIsDeveloped] = useState(isUserPhoto || false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
+    const [isEditingPrompt, setIsEditingPrompt] = useState(false);
+    const [isEditingFilm, setIsEditingFilm] = useState(false);
+    // The take being looked at, which may differ from the selected favourite while flipping
+    const [viewedVariant, setViewedVariant] = useState(selectedVariant);
     const imgRef = useRef<HTMLImageElement>(null);
     const lastShakeTime = useRef(0);
     const lastVelocity = useRef({ x: 0, y: 0 });
@@ -69,6 +383,14 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
         }
     }, [imageUrl, isUserPhoto]);
 
+    useEffect(() => {
+        setViewedVariant(selectedVariant);
+    }, [selectedVariant, variants?.length]);
+
+    const displayUrl = variants?.[viewedVariant] ?? imageUrl;
+    const displayScore = consistencyScores?.[viewedVariant];
+    const filteredUrl = useFilmFilter(displayUrl, filmFilter, caption);
+
     useEffect(() => {
         if (isImageLoaded && !isUserPhoto) {
             const timer = setTimeout(() => setIsDeveloped(true), 200);
@@ -80,6 +402,7 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
 
     const handleDragStart = () => { lastVelocity.current = { x: 0, y: 0 }; };
 
+    // Phones re-roll from a real shake of the device instead, see MobileCardDeck
     const handleDrag = (event: any, info: PanInfo) => {
         if (!onShake || isMobile) return;
         const velocityThreshold = 1500;
@@ -97,21 +420,73 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
         lastVelocity.current = { x, y };
     };
 
+    const canEditPrompt = Boolean(onPromptSubmit) && prompt !== undefined;
+
+    const handleErrorAction = (action: ErrorAction) => {
+        if (action === 'reselect-key' && onReselectKey) onReselectKey();
+        else if (action === 'edit-prompt' && canEditPrompt) setIsEditingPrompt(true);
+        else onShake?.(caption);
+    };
+
     const cardInnerContent = (
         <>
             <div className="w-full bg-neutral-900 shadow-inner flex-grow relative overflow-hidden group">
-                {status === 'pending' && <LoadingSpinner />}
-                {status === 'error' && <ErrorDisplay message={error} />}
+                {status === 'pending' && <DevelopingDisplay progress={progress} retryAt={retryAt} />}
+                {status === 'pending' && onCancel && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); onCancel(caption); }}
+                        className="absolute top-2 right-2 z-20 p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400"
+                        title="Cancel"
+                        aria-label={`Cancel ${caption}`}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                )}
+                {status === 'error' && <ErrorDisplay message={error} kind={errorKind} retryAt={retryAt} onAction={onShake ? handleErrorAction : undefined} />}
+                {status === 'cancelled' && <CancelledDisplay onRetry={onShake ? () => onShake(caption) : undefined} />}
+                {(status === 'error' || status === 'cancelled') && onPromptSubmit && prompt !== undefined && (
+                    <button
+                        onClick={(e) => { e.stopPropagation(); setIsEditingPrompt(true); }}
+                        className="absolute top-2 right-2 z-20 p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400"
+                        title="Edit prompt"
+                        aria-label={`Edit prompt for ${caption}`}
+                    >
+                        <EditPromptIcon />
+                    </button>
+                )}
+                {isEditingPrompt && onPromptSubmit && prompt !== undefined && (
+                    <PromptPanel prompt={prompt} onSubmit={onPromptSubmit} onClose={() => setIsEditingPrompt(false)} />
+                )}
+                {isEditingFilm && onFilmFilterChange && (
+                    <FilmPanel filter={filmFilter} caption={caption} onChange={onFilmFilterChange} onClose={() => setIsEditingFilm(false)} />
+                )}
                 {status === 'done' && imageUrl && (
                     <>
                         <div className={cn(
                             "absolute top-2 right-2 z-20 flex flex-col gap-2 transition-opacity duration-300",
-                            !isMobile && "opacity-0 group-hover:opacity-100",
+                            // Hover reveals them for the mouse; focus does the same for the keyboard
+                            !isMobile && "opacity-0 group-hover:opacity-100 focus-within:opacity-100",
                         )}>
+                            {onCompare && (
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onCompare(caption); }}
+                                    className={actionButtonClasses}
+                                    title="Compare with your photo"
+                                    aria-label={`Compare ${caption} with your photo`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18M4 5h5v14H4a1 1 0 01-1-1V6a1 1 0 011-1zm11 0h5a1 1 0 011 1v12a1 1 0 01-1 1h-5" />
+                                    </svg>
+                                </button>
+                            )}
                             {onDownload && (
                                 <button
                                     onClick={(e) => { e.stopPropagation(); onDownload(caption); }}
-                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none"
+                                    className={actionButtonClasses}
+                                    title="Download"
+                                    aria-label={`Download ${caption}`}
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                                         <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
@@ -121,19 +496,44 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
                              {onShake && (
                                 <button
                                     onClick={(e) => { e.stopPropagation(); onShake(caption); }}
-                                    className="p-2 bg-black/50 rounded-full text-white hover:bg-black/75 focus:outline-none"
+                                    className={actionButtonClasses}
+                                    title="Regenerate"
+                                    aria-label={`Regenerate ${caption}`}
                                 >
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                                         <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.899 2.186l-1.42.71a5.002 5.002 0 00-8.479-1.554H10a1 1 0 110 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm12 14a1 1 0 01-1-1v-2.101a7.002 7.002 0 01-11.899-2.186l1.42-.71a5.002 5.002 0 008.479 1.554H10a1 1 0 110-2h6a1 1 0 011 1v6a1 1 0 01-1 1z" clipRule="evenodd" />
                                     </svg>
                                 </button>
                             )}
+                            {onPromptSubmit && prompt !== undefined && (
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); setIsEditingPrompt(true); }}
+                                    className={actionButtonClasses}
+                                    title="Edit prompt"
+                                    aria-label={`Edit prompt for ${caption}`}
+                                >
+                                    <EditPromptIcon />
+                                </button>
+                            )}
+                            {onFilmFilterChange && (
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); setIsEditingFilm(true); }}
+                                    className={cn(actionButtonClasses, filmFilter && "text-yellow-400")}
+                                    title="Film look"
+                                    aria-label={`Film look for ${caption}`}
+                                    aria-pressed={Boolean(filmFilter)}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                        <path strokeLinecap="round" strokeLinejoin="round" d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" />
+                                    </svg>
+                                </button>
+                            )}
                         </div>
 
                         {!isUserPhoto && (
                             <div
                                 className={cn(
-                                    "absolute inset-0 z-10 bg-[#3a322c] transition-opacity duration-[3000ms] ease-out pointer-events-none",
+                                    "absolute inset-0 z-10 bg-[#3a322c] transition-opacity duration-[1500ms] ease-out pointer-events-none",
                                     isDeveloped ? 'opacity-0' : 'opacity-100'
                                 )}
                             />
@@ -141,15 +541,33 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
 
                         <img
                             ref={imgRef}
-                            src={imageUrl}
+                            src={filteredUrl}
                             alt={caption}
                             onLoad={() => setIsImageLoaded(true)}
                             className={cn(
-                                "w-full h-full object-cover transition-all duration-[3000ms] ease-in-out",
+                                "w-full h-full object-cover transition-all duration-[1500ms] ease-in-out",
                                 isDeveloped ? 'opacity-100 filter-none' : 'opacity-60 filter sepia(1) blur-[1px]'
                             )}
                             style={{ opacity: isImageLoaded ? 1 : 0 }}
                         />
+
+                        {displayScore !== undefined && isDeveloped && (
+                            <ConsistencyBadge score={displayScore} threshold={consistencyThreshold} />
+                        )}
+                        {variants && variants.length > 1 && (
+                            <VariantPicker
+                                count={variants.length}
+                                index={viewedVariant}
+                                selectedIndex={selectedVariant}
+                                onFlip={setViewedVariant}
+                                onSelect={onSelectVariant}
+                            />
+                        )}
+                        {error && (
+                            <p className="absolute top-2 left-2 right-14 z-20 bg-red-600/80 text-white text-[10px] font-bold uppercase tracking-tighter rounded-sm px-2 py-1 line-clamp-2">
+                                {error}
+                            </p>
+                        )}
                     </>
                 )}
                 {status === 'done' && !imageUrl && <Placeholder />}
@@ -167,9 +585,9 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
 
     const isPlaceholder = !imageUrl && (caption === "Click to begin" || caption === "Processing...");
 
-    if (isMobile || isPlaceholder) {
+    if (isMobile || isStatic || isPlaceholder) {
         return (
-            <div className="bg-neutral-100 !p-4 !pb-16 flex flex-col items-center justify-start aspect-[3/4] w-80 max-w-full rounded-md shadow-lg relative">
+            <div role="group" aria-label={caption} className="bg-neutral-100 !p-4 !pb-16 flex flex-col items-center justify-start aspect-[3/4] w-80 max-w-full rounded-md shadow-lg relative">
                 {cardInnerContent}
             </div>
         );
@@ -180,6 +598,9 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status,
             <DraggableCardBody 
                 className="bg-neutral-100 !p-4 !pb-16 flex flex-col items-center justify-start aspect-[3/4] w-80 max-w-full"
                 dragConstraintsRef={dragConstraintsRef}
+                onMoveEnd={onMoveEnd}
+                keyStep={keyStep}
+                label={caption}
                 onDragStart={handleDragStart}
                 onDrag={handleDrag}
             >
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { cn } from '../lib/utils.ts';
+import { detectFaces } from '../lib/faceSimilarity.ts';
+import type { CropRect } from '../lib/imageEditing.ts';
+import { type Subject, type SubjectMode, createSubject, sortSubjects } from '../lib/subjects.ts';
+
+interface SubjectSelectorProps {
+    image: string;
+    subjects: Subject[];
+    mode: SubjectMode;
+    onChange: (subjects: Subject[]) => void;
+    onModeChange: (mode: SubjectMode) => void;
+}
+
+interface DrawState {
+    startX: number;
+    startY: number;
+    box: CropRect;
+}
+
+const MAX_SUBJECTS = 8;
+// Drags shorter than this, as a fraction of the photo, count as taps
+const TAP_DISTANCE = 0.02;
+// A tap marks a head-and-shoulders sized box around the spot
+const TAP_BOX = { width: 0.25, height: 0.4 };
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Grows a detected face into a head-and-shoulders box, which is what the crop should keep.
+ */
+function faceToBox(face: CropRect): CropRect {
+    const x = clamp(face.x - face.width * 0.6);
+    const y = clamp(face.y - face.height * 0.5);
+    return { x, y, width: clamp(face.x + face.width * 1.6) - x, height: clamp(face.y + face.height * 2.5) - y };
+}
+
+const SubjectSelector: React.FC<SubjectSelectorProps> = ({ image, subjects, mode, onChange, onModeChange }) => {
+    const [draw, setDraw] = useState<DrawState | null>(null);
+    const [isDetecting, setIsDetecting] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const imgRef = useRef<HTMLImageElement>(null);
+    const canDetect = 'FaceDetector' in window;
+    const sorted = sortSubjects(subjects);
+
+    const getPoint = (e: React.PointerEvent) => {
+        const bounds = imgRef.current!.getBoundingClientRect();
+        return { x: clamp((e.clientX - bounds.left) / bounds.width), y: clamp((e.clientY - bounds.top) / bounds.height) };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (subjects.length >= MAX_SUBJECTS) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { x, y } = getPoint(e);
+        setDraw({ startX: x, startY: y, box: { x, y, width: 0, height: 0 } });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (!draw) return;
+        const { x, y } = getPoint(e);
+        setDraw({
+            ...draw,
+            box: { x: Math.min(x, draw.startX), y: Math.min(y, draw.startY), width: Math.abs(x - draw.startX), height: Math.abs(y - draw.startY) },
+        });
+    };
+
+    const handlePointerUp = () => {
+        if (!draw) return;
+        let { box } = draw;
+        if (box.width < TAP_DISTANCE && box.height < TAP_DISTANCE) {
+            const x = clamp(draw.startX - TAP_BOX.width / 2);
+            const y = clamp(draw.startY - TAP_BOX.height / 3);
+            box = { x, y, width: Math.min(TAP_BOX.width, 1 - x), height: Math.min(TAP_BOX.height, 1 - y) };
+        }
+        setDraw(null);
+        onChange([...subjects, createSubject(box)]);
+    };
+
+    const handleDetect = async () => {
+        if (!imgRef.current) return;
+        setIsDetecting(true);
+        setNotice(null);
+        const img = imgRef.current;
+        const faces = await detectFaces(img, MAX_SUBJECTS);
+        setIsDetecting(false);
+        if (faces.length === 0) {
+            setNotice("No faces found. Tap on each person instead.");
+            return;
+        }
+        onChange(faces.map(face => createSubject(faceToBox({
+            x: face.x / img.naturalWidth,
+            y: face.y / img.naturalHeight,
+            width: face.width / img.naturalWidth,
+            height: face.height / img.naturalHeight,
+        }))));
+    };
+
+    const updateLabel = (id: string, label: string) => {
+        onChange(subjects.map(subject => subject.id === id ? { ...subject, label } : subject));
+    };
+
+    const removeSubject = (id: string) => {
+        onChange(subjects.filter(subject => subject.id !== id));
+    };
+
+    const boxStyle = (box: CropRect) => ({
+        left: `${box.x * 100}%`,
+        top: `${box.y * 100}%`,
+        width: `${box.width * 100}%`,
+        height: `${box.height * 100}%`,
+    });
+
+    return (
+        <div className="w-full max-w-md bg-neutral-900/80 backdrop-blur-sm border border-white/10 rounded-md p-4 flex flex-col gap-3">
+            <div className="flex items-center justify-between gap-3">
+                <span className="font-permanent-marker text-lg text-neutral-100">People</span>
+                <div className="flex gap-3 text-xs">
+                    {canDetect && (
+                        <button onClick={handleDetect} disabled={isDetecting} className="text-neutral-400 hover:text-white disabled:opacity-50">
+                            {isDetecting ? 'Looking...' : 'Find faces'}
+                        </button>
+                    )}
+                    {subjects.length > 0 && (
+                        <button onClick={() => onChange([])} className="text-neutral-400 hover:text-white">Clear</button>
+                    )}
+                </div>
+            </div>
+            <p className="text-xs text-neutral-500">
+                Group photo? Tap or drag around the people to reimagine. Leave it empty to change everyone.
+            </p>
+
+            <div className="relative self-center select-none touch-none cursor-crosshair">
+                <img
+                    ref={imgRef}
+                    src={image}
+                    alt="Your photo"
+                    className="block max-h-64 max-w-full rounded-sm"
+                    draggable={false}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                />
+                {sorted.map((subject, index) => (
+                    <div key={subject.id} className="absolute border-2 border-yellow-400 pointer-events-none" style={boxStyle(subject.box)}>
+                        <span className="absolute -top-px -left-px bg-yellow-400 text-black text-[10px] font-bold px-1 leading-4">{index + 1}</span>
+                    </div>
+                ))}
+                {draw && <div className="absolute border-2 border-dashed border-white pointer-events-none" style={boxStyle(draw.box)} />}
+            </div>
+            {notice && <p className="text-xs text-neutral-500">{notice}</p>}
+
+            {sorted.length > 0 && (
+                <ul className="flex flex-col gap-2">
+                    {sorted.map((subject, index) => (
+                        <li key={subject.id} className="flex items-center gap-2">
+                            <span className="w-5 text-center text-xs font-bold text-yellow-400">{index + 1}</span>
+                            <input
+                                value={subject.label}
+                                onChange={(e) => updateLabel(subject.id, e.target.value)}
+                                placeholder={`Person ${index + 1}`}
+                                aria-label={`Label for person ${index + 1}`}
+                                className="flex-1 bg-black/40 border border-white/20 rounded-sm px-2 py-1 text-sm text-neutral-100 focus:outline-none focus:border-yellow-400"
+                            />
+                            <button onClick={() => removeSubject(subject.id)} className="text-neutral-500 hover:text-red-400 text-sm px-1" aria-label={`Remove person ${index + 1}`}>
+                                ×
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {sorted.length > 1 && (
+                <div className="flex gap-2 text-xs">
+                    {([['together', 'Together'], ['separate', 'One at a time']] as const).map(([value, label]) => (
+                        <button
+                            key={value}
+                            onClick={() => onModeChange(value)}
+                            className={cn(
+                                "flex-1 py-1.5 rounded-sm border font-permanent-marker",
+                                mode === value ? "bg-yellow-400 text-black border-yellow-400" : "text-neutral-300 border-white/20 hover:border-white/60",
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SubjectSelector;
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef } from 'react';
+import { motion } from 'framer-motion';
+import type { GenerationTarget } from '../lib/subjects.ts';
+import { getEraYear, sortByEraYear } from '../lib/timeline.ts';
+
+interface TimelineViewProps {
+    targets: GenerationTarget[];
+    renderCard: (target: GenerationTarget) => React.ReactNode;
+}
+
+const scrollButtonClasses = "absolute top-1/2 -translate-y-1/2 z-20 p-3 rounded-full bg-black/60 text-white hover:bg-white hover:text-black transition-colors";
+
+/**
+ * Cards in time order along a horizontal line, one year marker each, snapping card by card as it scrolls.
+ */
+const TimelineView: React.FC<TimelineViewProps> = ({ targets, renderCard }) => {
+    const scrollerRef = useRef<HTMLDivElement>(null);
+    const sorted = sortByEraYear(targets, (target: GenerationTarget) => target.era.caption);
+
+    const scrollByCard = (direction: 1 | -1) => {
+        const scroller = scrollerRef.current;
+        const card = scroller?.querySelector<HTMLElement>('[data-timeline-item]');
+        if (!scroller || !card) return;
+        scroller.scrollBy({ left: direction * card.offsetWidth, behavior: 'smooth' });
+    };
+
+    return (
+        <div className="relative w-full max-w-6xl mt-4">
+            <button onClick={() => scrollByCard(-1)} className={`${scrollButtonClasses} left-0`} aria-label="Earlier">‹</button>
+            <div ref={scrollerRef} className="overflow-x-auto snap-x snap-mandatory scroll-smooth pb-6">
+                <div className="relative flex w-max px-[calc(50vw-12rem)] md:px-24">
+                    {/* The line itself, running through every marker */}
+                    <div className="absolute left-0 right-0 top-[34px] h-0.5 bg-white/20" />
+                    {sorted.map((target, index) => {
+                        const year = getEraYear(target.era.caption);
+                        return (
+                            <motion.div
+                                key={target.id}
+                                data-timeline-item
+                                className="snap-center shrink-0 flex flex-col items-center gap-6 px-6"
+                                initial={{ opacity: 0, y: 40 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                transition={{ delay: index * 0.08 }}
+                            >
+                                <div className="flex flex-col items-center gap-2 h-12">
+                                    <span className="font-permanent-marker text-sm text-neutral-400">{year ?? '—'}</span>
+                                    <span className="h-3 w-3 rounded-full bg-yellow-400 ring-4 ring-black" />
+                                </div>
+                                {renderCard(target)}
+                            </motion.div>
+                        );
+                    })}
+                </div>
+            </div>
+            <button onClick={() => scrollByCard(1)} className={`${scrollButtonClasses} right-0`} aria-label="Later">›</button>
+        </div>
+    );
+};
+
+export default TimelineView;
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { cn } from "../../lib/utils.ts";
-import React, { useRef } from "react";
+import React, { useLayoutEffect, useRef } from "react";
 import {
   motion,
   useMotionValue,
@@ -13,26 +13,60 @@ import {
   animate,
   useVelocity,
   useAnimationControls,
+  useReducedMotion,
   PanInfo,
 } from "framer-motion";
- 
+
+// How far one arrow key press moves a card by default, in pixels; Shift moves it further
+const KEY_STEP = 20;
+const SHIFT_STEP_FACTOR = 4;
+
 export const DraggableCardBody = ({
   className,
   children,
   dragConstraintsRef,
   onDrag,
   onDragStart,
+  onMoveEnd,
+  keyStep = KEY_STEP,
+  label,
 }: {
   className?: string;
   children?: React.ReactNode;
   dragConstraintsRef?: React.RefObject<HTMLElement>;
   onDrag?: (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => void;
   onDragStart?: (event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => void;
+  /** Called once a drag, its fling or an arrow key move settles, with how far the card moved in pixels. */
+  onMoveEnd?: (offset: { x: number; y: number }) => void;
+  /** Pixels per arrow key press, e.g. one grid cell when the parent snaps cards to a grid. */
+  keyStep?: number;
+  /** Names the card for screen readers. */
+  label?: string;
 }) => {
   const mouseX = useMotionValue(0);
   const mouseY = useMotionValue(0);
+  const x = useMotionValue(0);
+  const y = useMotionValue(0);
   const cardRef = useRef<HTMLDivElement>(null);
   const controls = useAnimationControls();
+  // Tilt, glare and fling are all decoration; skip them for anyone who asked for less motion
+  const reduceMotion = useReducedMotion();
+
+  // The parent re-places the card after every reported move, even when snapping or clamping
+  // lands it back on the same spot, so the moved offset is dropped on the next render, before paint
+  const hasReportedMove = useRef(false);
+  useLayoutEffect(() => {
+    if (!hasReportedMove.current) return;
+    hasReportedMove.current = false;
+    x.set(0);
+    y.set(0);
+  });
+
+  const reportMove = () => {
+    if (!onMoveEnd) return;
+    hasReportedMove.current = true;
+    onMoveEnd({ x: x.get(), y: y.get() });
+  };
  
   const velocityX = useVelocity(mouseX);
   const velocityY = useVelocity(mouseY);
@@ -62,7 +96,11 @@ export const DraggableCardBody = ({
     springConfig,
   );
  
+  const glareLeft = useTransform(mouseX, (v) => `${50 + v * 0.1}%`);
+  const glareTop = useTransform(mouseY, (v) => `${50 + v * 0.1}%`);
+ 
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (reduceMotion) return;
     // Don't apply hover effect while dragging
     if (cardRef.current && cardRef.current.style.transform.includes('translate3d')) return;
 
@@ -86,12 +124,46 @@ export const DraggableCardBody = ({
     mouseX.set(0);
     mouseY.set(0);
   };
+
+  // Arrow keys move the card like a drag would, kept inside the drag constraints
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    const step = e.shiftKey ? keyStep * SHIFT_STEP_FACTOR : keyStep;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+
+    let [dx, dy] = move;
+    const card = cardRef.current?.getBoundingClientRect();
+    const bounds = dragConstraintsRef?.current?.getBoundingClientRect();
+    if (card && bounds) {
+      dx = Math.min(Math.max(dx, bounds.left - card.left), bounds.right - card.right);
+      dy = Math.min(Math.max(dy, bounds.top - card.top), bounds.bottom - card.bottom);
+    }
+    x.set(x.get() + dx);
+    y.set(y.get() + dy);
+    reportMove();
+  };
  
   return (
     <motion.div
       ref={cardRef}
+      tabIndex={0}
+      role="group"
+      aria-label={label}
+      aria-roledescription="movable card"
+      aria-keyshortcuts="ArrowUp ArrowDown ArrowLeft ArrowRight"
+      onKeyDown={handleKeyDown}
       drag
       dragConstraints={dragConstraintsRef}
+      dragMomentum={!reduceMotion}
+      onDragTransitionEnd={reportMove}
       onDrag={onDrag}
       onDragStart={(event, info) => {
         document.body.style.cursor = "grabbing";
@@ -105,6 +177,7 @@ export const DraggableCardBody = ({
       }}
       onDragEnd={(event, info) => {
         document.body.style.cursor = "default";
+        if (reduceMotion) return;
  
         const currentVelocityX = velocityX.get();
         const currentVelocityY = velocityY.get();
@@ -138,34 +211,38 @@ export const DraggableCardBody = ({
         });
       }}
       style={{
+        x,
+        y,
         rotateX,
         rotateY,
         opacity,
         willChange: "transform",
       }}
       animate={controls}
-      whileHover={{ scale: 1.02 }}
-      whileTap={{ scale: 0.98, cursor: 'grabbing' }}
+      whileHover={reduceMotion ? undefined : { scale: 1.02 }}
+      whileTap={reduceMotion ? { cursor: 'grabbing' } : { scale: 0.98, cursor: 'grabbing' }}
       onMouseMove={handleMouseMove}
       onMouseLeave={handleMouseLeave}
       className={cn(
-        "relative min-h-96 w-80 overflow-hidden rounded-md bg-neutral-100 p-6 shadow-2xl [transform-style:preserve-3d] dark:bg-neutral-900",
+        "relative min-h-96 w-80 overflow-hidden rounded-md bg-neutral-100 p-6 shadow-2xl [transform-style:preserve-3d] dark:bg-neutral-900 focus:outline-none focus-visible:ring-4 focus-visible:ring-yellow-400",
         className,
       )}
     >
       {children}
-      <motion.div
-        style={{
-          opacity: glareOpacity,
-          background: "radial-gradient(circle at center, rgba(255,255,255,0.8) 0%, rgba(255,255,255,0) 60%)",
-          transform: "translate(-50%, -50%)",
-          left: useTransform(mouseX, (v) => `${50 + v * 0.1}%`),
-          top: useTransform(mouseY, (v) => `${50 + v * 0.1}%`),
-          width: "200%",
-          height: "200%",
-        }}
-        className="pointer-events-none absolute inset-0 select-none"
-      />
+      {!reduceMotion && (
+        <motion.div
+          style={{
+            opacity: glareOpacity,
+            background: "radial-gradient(circle at center, rgba(255,255,255,0.8) 0%, rgba(255,255,255,0) 60%)",
+            transform: "translate(-50%, -50%)",
+            left: glareLeft,
+            top: glareTop,
+            width: "200%",
+            height: "200%",
+          }}
+          className="pointer-events-none absolute inset-0 select-none"
+        />
+      )}
     </motion.div>
   );
 };
@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DeskCardRect } from './deskState.ts';
+
+export type AlbumTexture = 'none' | 'paper' | 'linen' | 'wood';
+
+export interface AlbumOptions {
+    title: string;
+    subtitle: string;
+    background: string;
+    texture: AlbumTexture;
+    /** CSS font family used for polaroid captions. */
+    captionFont: string;
+}
+
+/**
+ * Where one polaroid goes on the page. Coordinates are the polaroid's centre, in canvas pixels.
+ */
+export interface PolaroidSlot {
+    x: number;
+    y: number;
+    width: number;
+    /** Radians. */
+    rotation: number;
+}
+
+export interface AlbumTemplate {
+    id: string;
+    label: string;
+    /** Page size for `count` polaroids. Most templates are fixed; the filmstrip grows with its content. */
+    getSize: (count: number) => { width: number; height: number };
+    /** Lays out `count` polaroids below the header. `random` is seeded so previews match exports. */
+    arrange: (count: number, page: { width: number; height: number; top: number }, random: () => number) => PolaroidSlot[];
+    defaults: Partial<AlbumOptions>;
+}
+
+/** Height of a polaroid relative to its width. */
+export const POLAROID_ASPECT_RATIO = 1.2;
+
+export const CAPTION_FONTS = [
+    { label: 'Marker', value: "'Permanent Marker', cursive" },
+    { label: 'Handwritten', value: "'Caveat', cursive" },
+    { label: 'Typewriter', value: "'Courier New', monospace" },
+    { label: 'Clean', value: "'Roboto', sans-serif" },
+];
+
+export const DEFAULT_ALBUM_OPTIONS: AlbumOptions = {
+    title: 'Generated with Past Forward',
+    subtitle: 'on Google AI Studio',
+    background: '#fdf5e6', // A warm, parchment-like color
+    texture: 'none',
+    captionFont: CAPTION_FONTS[0].value,
+};
+
+const PAGE_PADDING_RATIO = 0.04;
+const HAND_PLACED_TILT = 0.1; // Radians (approx. +/- 2.8 degrees)
+
+/**
+ * Picks a column count for `count` items that keeps cells close to the polaroid shape.
+ */
+function getColumnsFor(count: number, width: number, height: number): number {
+    let best = 1;
+    let bestSize = 0;
+    for (let cols = 1; cols <= count; cols++) {
+        const rows = Math.ceil(count / cols);
+        const cellWidth = width / cols;
+        const cellHeight = height / rows;
+        const polaroidWidth = Math.min(cellWidth, cellHeight / POLAROID_ASPECT_RATIO);
+        if (polaroidWidth > bestSize) {
+            bestSize = polaroidWidth;
+            best = cols;
+        }
+    }
+    return best;
+}
+
+/**
+ * Arranges polaroids in an evenly spaced grid, each with a slight hand-placed tilt.
+ */
+function arrangeGrid(count: number, page: { width: number; height: number; top: number }, random: () => number, fixedCols?: number): PolaroidSlot[] {
+    const padding = page.width * PAGE_PADDING_RATIO;
+    const areaWidth = page.width - padding * 2;
+    const areaHeight = page.height - page.top - padding;
+    const cols = Math.max(1, Math.min(count, fixedCols ?? getColumnsFor(count, areaWidth, areaHeight)));
+    const rows = Math.max(1, Math.ceil(count / cols));
+    const cellWidth = areaWidth / cols;
+    const cellHeight = areaHeight / rows;
+
+    // Fit the polaroid inside the grid cell with a margin
+    const width = Math.min(cellWidth * 0.9, (cellHeight * 0.9) / POLAROID_ASPECT_RATIO);
+
+    return Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        // Centre a short last row
+        const itemsInRow = row === rows - 1 ? count - row * cols : cols;
+        const rowOffset = ((cols - itemsInRow) * cellWidth) / 2;
+        return {
+            x: padding + rowOffset + cellWidth * col + cellWidth / 2,
+            y: page.top + cellHeight * row + cellHeight / 2,
+            width,
+            rotation: (random() - 0.5) * HAND_PLACED_TILT,
+        };
+    });
+}
+
+/**
+ * Drops polaroids loosely across the page, as if tipped out onto a table.
+ */
+function arrangeScattered(count: number, page: { width: number; height: number; top: number }, random: () => number): PolaroidSlot[] {
+    const grid = arrangeGrid(count, page, random);
+    return grid.map(slot => ({
+        x: slot.x + (random() - 0.5) * slot.width * 0.35,
+        y: slot.y + (random() - 0.5) * slot.width * 0.3,
+        // Slightly larger so neighbours overlap
+        width: slot.width * 1.12,
+        rotation: (random() - 0.5) * 0.6,
+    }));
+}
+
+/**
+ * Copies the user's own desk onto the page: the cards keep their spots, tilts and relative sizes,
+ * scaled together to fill the space below the header.
+ */
+export function arrangeFromDesk(cards: DeskCardRect[], page: { width: number; height: number; top: number }): PolaroidSlot[] {
+    if (cards.length === 0) return [];
+    const padding = page.width * PAGE_PADDING_RATIO;
+    const left = Math.min(...cards.map(card => card.x - card.width / 2));
+    const right = Math.max(...cards.map(card => card.x + card.width / 2));
+    const top = Math.min(...cards.map(card => card.y - card.height / 2));
+    const bottom = Math.max(...cards.map(card => card.y + card.height / 2));
+    const areaWidth = page.width - padding * 2;
+    const areaHeight = page.height - page.top - padding;
+    const scale = Math.min(areaWidth / (right - left), areaHeight / (bottom - top));
+    // Centre the arrangement in the area
+    const offsetX = padding + (areaWidth - (right - left) * scale) / 2;
+    const offsetY = page.top + (areaHeight - (bottom - top) * scale) / 2;
+
+    return cards.map(card => ({
+        x: offsetX + (card.x - left) * scale,
+        y: offsetY + (card.y - top) * scale,
+        width: card.width * scale,
+        rotation: (card.rotate * Math.PI) / 180,
+    }));
+}
+
+const FILMSTRIP_FRAME = 900;
+const FILMSTRIP_HEIGHT = 1500;
+// Each extra row of frames below the first
+const FILMSTRIP_ROW_HEIGHT = 1100;
+// Longer strips wrap onto another row
+const FILMSTRIP_MAX_FRAMES = 8;
+// Safari won't draw canvases over about 16.7M pixels; bigger pages are scaled down to fit
+const MAX_PAGE_PIXELS = 16_000_000;
+
+function getFilmstripColumns(count: number): number {
+    return Math.max(1, Math.min(count, FILMSTRIP_MAX_FRAMES));
+}
+
+function getFilmstripSize(count: number): { width: number; height: number } {
+    const cols = getFilmstripColumns(count);
+    const rows = Math.max(1, Math.ceil(count / cols));
+    const width = Math.max(2400, FILMSTRIP_FRAME * cols + 200);
+    const height = FILMSTRIP_HEIGHT + FILMSTRIP_ROW_HEIGHT * (rows - 1);
+    const scale = Math.min(1, Math.sqrt(MAX_PAGE_PIXELS / (width * height)));
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+export const ALBUM_TEMPLATES: AlbumTemplate[] = [
+    {
+        id: 'a4-portrait',
+        label: 'A4 portrait',
+        getSize: () => ({ width: 2480, height: 3508 }),
+        arrange: (count, page, random) => arrangeGrid(count, page, random),
+        defaults: {},
+    },
+    {
+        id: 'letter-portrait',
+        label: 'US Letter portrait',
+        getSize: () => ({ width: 2550, height: 3300 }),
+        arrange: (count, page, random) => arrangeGrid(count, page, random),
+        defaults: {},
+    },
+    {
+        id: 'square-social',
+        label: 'Square (social)',
+        getSize: () => ({ width: 2160, height: 2160 }),
+        arrange: (count, page, random) => arrangeGrid(count, page, random),
+        defaults: { subtitle: '' },
+    },
+    {
+        id: 'landscape-3x2',
+        label: 'Landscape 3×2',
+        getSize: () => ({ width: 3508, height: 2480 }),
+        arrange: (count, page, random) => arrangeGrid(count, page, random, count <= 6 ? 3 : undefined),
+        defaults: {},
+    },
+    {
+        id: 'filmstrip',
+        label: 'Filmstrip',
+        getSize: getFilmstripSize,
+        arrange: (count, page, random) => arrangeGrid(count, page, random, getFilmstripColumns(count)),
+        defaults: { background: '#1a1a1a', subtitle: '' },
+    },
+    {
+        id: 'scattered-table',
+        label: 'Scattered on a table',
+        getSize: () => ({ width: 3508, height: 2480 }),
+        arrange: arrangeScattered,
+        defaults: { background: '#7a4b2a', texture: 'wood' },
+    },
+];
+
+export function getAlbumTemplate(id: string): AlbumTemplate {
+    return ALBUM_TEMPLATES.find(template => template.id === id) ?? ALBUM_TEMPLATES[0];
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createSeededRandom, loadImage } from './utils.ts';
+import { type AlbumEntry, drawAlbumBackground, drawPolaroid, isDarkColour } from './albumUtils.ts';
+import { type AlbumOptions, DEFAULT_ALBUM_OPTIONS } from './albumLayouts.ts';
+import { A4_PAGE, PdfDocument, jpegDataUrlToBytes } from './pdfWriter.ts';
+
+export interface AlbumPdfSettings {
+    /** The original upload, shown on the cover. */
+    sourceImage: string;
+    entries: AlbumEntry[];
+    options?: Partial<AlbumOptions>;
+    seed?: number;
+}
+
+// A4 at 300 DPI
+const PAGE_WIDTH = 2480;
+const PAGE_HEIGHT = 3508;
+const JPEG_QUALITY = 0.92;
+// The cover and contents come before the first era
+const FRONT_MATTER_PAGES = 2;
+
+interface PageCanvas {
+    canvas: HTMLCanvasElement;
+    ctx: CanvasRenderingContext2D;
+}
+
+function createPage(options: AlbumOptions, random: () => number): PageCanvas {
+    const canvas = document.createElement('canvas');
+    canvas.width = PAGE_WIDTH;
+    canvas.height = PAGE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    drawAlbumBackground(ctx, options, PAGE_WIDTH, PAGE_HEIGHT, random);
+    return { canvas, ctx };
+}
+
+function addPage(pdf: PdfDocument, { canvas }: PageCanvas) {
+    pdf.addJpegPage(jpegDataUrlToBytes(canvas.toDataURL('image/jpeg', JPEG_QUALITY)), canvas.width, canvas.height, A4_PAGE);
+}
+
+function drawPageNumber(ctx: CanvasRenderingContext2D, options: AlbumOptions, pageNumber: number) {
+    ctx.fillStyle = isDarkColour(options.background) ? '#bbb' : '#777';
+    ctx.font = `50px 'Roboto', sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(String(pageNumber), PAGE_WIDTH / 2, PAGE_HEIGHT - 120);
+}
+
+function drawCover(page: PageCanvas, source: HTMLImageElement, options: AlbumOptions, random: () => number) {
+    const { ctx } = page;
+    const isDark = isDarkColour(options.background);
+    ctx.textAlign = 'center';
+    ctx.fillStyle = isDark ? '#f5f5f5' : '#333';
+    ctx.font = `bold 180px 'Caveat', cursive`;
+    ctx.fillText(options.title || 'Past Forward', PAGE_WIDTH / 2, 420, PAGE_WIDTH - 300);
+    if (options.subtitle) {
+        ctx.fillStyle = isDark ? '#bbb' : '#555';
+        ctx.font = `70px 'Roboto', sans-serif`;
+        ctx.fillText(options.subtitle, PAGE_WIDTH / 2, 560, PAGE_WIDTH - 300);
+    }
+    drawPolaroid(ctx, source, 'The Original', {
+        x: PAGE_WIDTH / 2,
+        y: PAGE_HEIGHT * 0.56,
+        width: PAGE_WIDTH * 0.6,
+        rotation: (random() - 0.5) * 0.08,
+    }, options.captionFont);
+    ctx.fillStyle = isDark ? '#bbb' : '#777';
+    ctx.font = `50px 'Roboto', sans-serif`;
+    ctx.fillText(new Date().toLocaleDateString(), PAGE_WIDTH / 2, PAGE_HEIGHT - 200);
+}
+
+function drawContents(page: PageCanvas, entries: AlbumEntry[], options: AlbumOptions) {
+    const { ctx } = page;
+    const isDark = isDarkColour(options.background);
+    const margin = 300;
+    ctx.fillStyle = isDark ? '#f5f5f5' : '#333';
+    ctx.textAlign = 'center';
+    ctx.font = `bold 150px 'Caveat', cursive`;
+    ctx.fillText('Contents', PAGE_WIDTH / 2, 450);
+
+    ctx.font = `60px 'Roboto', sans-serif`;
+    ctx.fillStyle = isDark ? '#bbb' : '#555';
+    ctx.fillText(`${entries.length} ${entries.length === 1 ? 'era' : 'eras'}, one photo each`, PAGE_WIDTH / 2, 570);
+
+    const lineHeight = Math.min(160, (PAGE_HEIGHT - 1100) / Math.max(1, entries.length));
+    const fontSize = Math.round(lineHeight * 0.55);
+    entries.forEach((entry, index) => {
+        const y = 800 + index * lineHeight;
+        const pageNumber = String(FRONT_MATTER_PAGES + index + 1);
+        ctx.fillStyle = isDark ? '#eee' : '#222';
+        ctx.font = `${fontSize}px ${options.captionFont}`;
+        ctx.textAlign = 'left';
+        ctx.fillText(entry.caption, margin, y, PAGE_WIDTH * 0.55);
+        ctx.textAlign = 'right';
+        ctx.fillText(pageNumber, PAGE_WIDTH - margin, y);
+
+        // Dot leader between the caption and its page number
+        const captionEnd = margin + Math.min(ctx.measureText(entry.caption).width, PAGE_WIDTH * 0.55) + 40;
+        const numberStart = PAGE_WIDTH - margin - ctx.measureText(pageNumber).width - 40;
+        ctx.fillStyle = isDark ? '#777' : '#aaa';
+        for (let x = captionEnd; x < numberStart; x += 30) {
+            ctx.fillRect(x, y - 8, 8, 8);
+        }
+    });
+}
+
+/**
+ * Builds a printable multi-page PDF: a cover with the original photo, a contents page,
+ * then one full page per era, all drawn with the same polaroid routine as the album page.
+ */
+export async function createAlbumPdf({ sourceImage, entries, options: edits, seed = 1 }: AlbumPdfSettings): Promise<Blob> {
+    const options: AlbumOptions = { ...DEFAULT_ALBUM_OPTIONS, ...edits };
+    const random = createSeededRandom(seed);
+    const pdf = new PdfDocument(options.title || 'Past Forward');
+
+    const [source, ...images] = await Promise.all([sourceImage, ...entries.map(entry => entry.url)].map(loadImage));
+
+    const cover = createPage(options, random);
+    drawCover(cover, source, options, random);
+    addPage(pdf, cover);
+
+    const contents = createPage(options, random);
+    drawContents(contents, entries, options);
+    addPage(pdf, contents);
+
+    // One page at a time, so only one print-size canvas is held in memory
+    entries.forEach((entry, index) => {
+        const page = createPage(options, random);
+        drawPolaroid(page.ctx, images[index], entry.caption, {
+            x: PAGE_WIDTH / 2,
+            y: PAGE_HEIGHT * 0.47,
+            width: PAGE_WIDTH * 0.72,
+            rotation: (random() - 0.5) * 0.06,
+        }, options.captionFont);
+        drawPageNumber(page.ctx, options, FRONT_MATTER_PAGES + index + 1);
+        addPage(pdf, page);
+    });
+
+    return pdf.toBlob();
+}
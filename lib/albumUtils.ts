@@ -2,154 +2,276 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-// Helper function to load an image and return it as an HTMLImageElement
-function loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        // Setting crossOrigin is good practice for canvas operations, even with data URLs
-        img.crossOrigin = 'anonymous';
-        img.onload = () => resolve(img);
-        img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-        img.src = src;
-    });
+import { createSeededRandom, loadImage } from './utils.ts';
+import type { DeskCardRect } from './deskState.ts';
+import {
+    type AlbumOptions,
+    type AlbumTexture,
+    type PolaroidSlot,
+    DEFAULT_ALBUM_OPTIONS,
+    arrangeFromDesk,
+    getAlbumTemplate,
+    POLAROID_ASPECT_RATIO,
+} from './albumLayouts.ts';
+
+export interface AlbumEntry {
+    caption: string;
+    url: string;
+    /** The generation target the photo came from, where there is one. */
+    id?: string;
+}
+
+export interface AlbumPageSettings {
+    /** One of ALBUM_TEMPLATES' ids. Defaults to A4 portrait. */
+    templateId?: string;
+    options?: Partial<AlbumOptions>;
+    /** Renders smaller than print size, for previews. */
+    scale?: number;
+    /** Seeds the hand-placed tilt so a preview and its export look identical. */
+    seed?: number;
+    /** Lays the polaroids out as the user arranged them on the desk, one per entry, instead of by template. */
+    arrangement?: DeskCardRect[];
+}
+
+// Space for the header, as a share of the page's shorter side
+const HEADER_RATIO = 0.12;
+
+export function isDarkColour(hex: string): boolean {
+    const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    if (!match) return false;
+    const [r, g, b] = match.slice(1).map(channel => parseInt(channel, 16));
+    return (0.299 * r + 0.587 * g + 0.114 * b) < 128;
+}
+
+/**
+ * Paints a procedural texture over the background colour.
+ */
+function drawTexture(ctx: CanvasRenderingContext2D, texture: AlbumTexture, width: number, height: number, random: () => number) {
+    ctx.save();
+    if (texture === 'paper') {
+        // Sparse fibres and specks
+        for (let i = 0; i < (width * height) / 400; i++) {
+            ctx.fillStyle = `rgba(0, 0, 0, ${random() * 0.05})`;
+            ctx.fillRect(random() * width, random() * height, 1 + random() * 3, 1 + random() * 3);
+        }
+    } else if (texture === 'linen') {
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.05)';
+        ctx.lineWidth = 2;
+        for (let offset = 0; offset < Math.max(width, height); offset += 8) {
+            ctx.beginPath();
+            ctx.moveTo(offset, 0);
+            ctx.lineTo(offset, height);
+            ctx.moveTo(0, offset);
+            ctx.lineTo(width, offset);
+            ctx.stroke();
+        }
+    } else if (texture === 'wood') {
+        // Horizontal planks with wavy grain
+        const plankHeight = height / 6;
+        for (let plank = 0; plank < 6; plank++) {
+            const top = plank * plankHeight;
+            ctx.fillStyle = `rgba(0, 0, 0, ${0.04 + random() * 0.08})`;
+            ctx.fillRect(0, top, width, plankHeight);
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.12)';
+            ctx.lineWidth = 3;
+            ctx.beginPath();
+            ctx.moveTo(0, top);
+            ctx.lineTo(width, top);
+            ctx.stroke();
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.05)';
+            ctx.lineWidth = 2;
+            for (let line = 0; line < 8; line++) {
+                const y = top + random() * plankHeight;
+                const wave = 5 + random() * 15;
+                ctx.beginPath();
+                ctx.moveTo(0, y);
+                for (let x = 0; x <= width; x += 40) {
+                    ctx.lineTo(x, y + Math.sin(x / 200 + line) * wave);
+                }
+                ctx.stroke();
+            }
+        }
+    }
+    ctx.restore();
+}
+
+/**
+ * Fills a page with the album's background colour and texture.
+ */
+export function drawAlbumBackground(ctx: CanvasRenderingContext2D, options: AlbumOptions, width: number, height: number, random: () => number) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+    drawTexture(ctx, options.texture, width, height, random);
 }
 
 /**
- * Creates a single "photo album" page image from a collection of decade images.
- * @param imageData A record mapping decade strings to their image data URLs.
+ * Draws one polaroid (frame, photo and handwritten caption) centred on `slot`.
+ * Shared by the album page, PDF and animation exporters so they all look the same.
+ */
+export function drawPolaroid(
+    ctx: CanvasRenderingContext2D,
+    img: HTMLImageElement | HTMLCanvasElement,
+    caption: string,
+    slot: PolaroidSlot,
+    captionFont: string = DEFAULT_ALBUM_OPTIONS.captionFont,
+) {
+    const polaroidWidth = slot.width;
+    const polaroidHeight = polaroidWidth * POLAROID_ASPECT_RATIO;
+    const imageContainerWidth = polaroidWidth * 0.9;
+    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+
+    ctx.save();
+
+    // Translate context to the center of the polaroid for rotation
+    ctx.translate(slot.x, slot.y);
+    ctx.rotate(slot.rotation);
+
+    // Draw a soft shadow
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = polaroidWidth * 0.05;
+    ctx.shadowOffsetX = polaroidWidth * 0.007;
+    ctx.shadowOffsetY = polaroidWidth * 0.014;
+
+    // Draw the white polaroid frame (centered at the new origin)
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
+
+    // Remove shadow for subsequent drawing
+    ctx.shadowColor = 'transparent';
+
+    // Calculate image dimensions to fit while maintaining aspect ratio
+    const aspectRatio = img instanceof HTMLImageElement
+        ? img.naturalWidth / img.naturalHeight
+        : img.width / img.height;
+    let drawWidth = imageContainerWidth;
+    let drawHeight = drawWidth / aspectRatio;
+
+    if (drawHeight > imageContainerHeight) {
+        drawHeight = imageContainerHeight;
+        drawWidth = drawHeight * aspectRatio;
+    }
+
+    // Calculate position to center the image within its container area
+    const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
+    const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
+
+    const imgX = -drawWidth / 2; // Horizontally centered due to context translation
+    const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
+
+    ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
+
+    // Draw the handwritten caption, scaled with the polaroid
+    ctx.fillStyle = '#222';
+    ctx.font = `${Math.round(polaroidWidth * 0.085)}px ${captionFont}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    const captionAreaTop = imageContainerY + imageContainerHeight;
+    const captionAreaBottom = polaroidHeight / 2;
+    const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
+
+    ctx.fillText(caption, 0, captionY, polaroidWidth * 0.9);
+
+    ctx.restore(); // Restore context to pre-transformation state
+}
+
+/**
+ * Creates a single "photo album" page image from a collection of era images.
+ * @param entries The captioned images to lay out, in display order.
+ * @param settings Template, styling and render scale for the page.
  * @returns A promise that resolves to a data URL of the generated album page (JPEG format).
  */
-export async function createAlbumPage(imageData: Record<string, string>): Promise<string> {
+export async function createAlbumPage(entries: AlbumEntry[], settings: AlbumPageSettings = {}): Promise<string> {
+    const canvas = await renderAlbumCanvas(entries, settings);
+    // Convert canvas to a high-quality JPEG and return the data URL
+    return canvas.toDataURL('image/jpeg', 0.9);
+}
+
+/**
+ * Renders an album page to a canvas, for callers that need more than a JPEG data URL.
+ */
+export async function renderAlbumCanvas(entries: AlbumEntry[], settings: AlbumPageSettings = {}): Promise<HTMLCanvasElement> {
+    const template = getAlbumTemplate(settings.templateId ?? '');
+    const options: AlbumOptions = { ...DEFAULT_ALBUM_OPTIONS, ...template.defaults, ...settings.options };
+    const scale = settings.scale ?? 1;
+    const random = createSeededRandom(settings.seed ?? 1);
+
+    const page = template.getSize(entries.length);
     const canvas = document.createElement('canvas');
-    // High-resolution canvas for good quality (A4-like ratio)
-    const canvasWidth = 2480;
-    const canvasHeight = 3508;
-    canvas.width = canvasWidth;
-    canvas.height = canvasHeight;
-    
+    canvas.width = Math.round(page.width * scale);
+    canvas.height = Math.round(page.height * scale);
+
     const ctx = canvas.getContext('2d');
     if (!ctx) {
         throw new Error('Could not get 2D canvas context');
     }
+    // Lay out at print size; the scale only affects the pixels produced
+    ctx.scale(scale, scale);
 
     // 1. Draw the album page background
-    ctx.fillStyle = '#fdf5e6'; // A warm, parchment-like color
-    ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+    drawAlbumBackground(ctx, options, page.width, page.height, random);
 
     // 2. Draw the title
-    ctx.fillStyle = '#333';
-    ctx.textAlign = 'center';
+    const unit = Math.min(page.width, page.height);
+    const hasHeader = Boolean(options.title || options.subtitle);
+    const headerHeight = hasHeader ? unit * HEADER_RATIO : unit * 0.03;
+    const isDark = isDarkColour(options.background);
 
-    ctx.font = `bold 100px 'Caveat', cursive`;
-    ctx.fillText('Generated with Past Forward', canvasWidth / 2, 150);
-
-    ctx.font = `50px 'Roboto', sans-serif`;
-    ctx.fillStyle = '#555';
-    ctx.fillText('on Google AI Studio', canvasWidth / 2, 220);
+    ctx.textAlign = 'center';
+    if (options.title) {
+        ctx.fillStyle = isDark ? '#f5f5f5' : '#333';
+        ctx.font = `bold ${Math.round(unit * 0.04)}px 'Caveat', cursive`;
+        ctx.fillText(options.title, page.width / 2, headerHeight * 0.5);
+    }
+    if (options.subtitle) {
+        ctx.fillStyle = isDark ? '#bbb' : '#555';
+        ctx.font = `${Math.round(unit * 0.02)}px 'Roboto', sans-serif`;
+        ctx.fillText(options.subtitle, page.width / 2, headerHeight * 0.78);
+    }
 
     // 3. Load all the polaroid images concurrently
-    const decades = Object.keys(imageData);
     const loadedImages = await Promise.all(
-        Object.values(imageData).map(url => loadImage(url))
+        entries.map(entry => loadImage(entry.url))
     );
 
-    const imagesWithDecades = decades.map((decade, index) => ({
-        decade,
-        img: loadedImages[index],
-    }));
-
-    // 4. Define grid layout and draw each polaroid
-    const grid = { cols: 2, rows: 3, padding: 100 };
-    const contentTopMargin = 300; // Space for the header
-    const contentHeight = canvasHeight - contentTopMargin;
-    const cellWidth = (canvasWidth - grid.padding * (grid.cols + 1)) / grid.cols;
-    const cellHeight = (contentHeight - grid.padding * (grid.rows + 1)) / grid.rows;
-
-    // Calculate polaroid dimensions to fit inside the grid cell with a margin
-    const polaroidAspectRatio = 1.2; // height is 1.2 times width
-    const maxPolaroidWidth = cellWidth * 0.9;
-    const maxPolaroidHeight = cellHeight * 0.9;
-
-    let polaroidWidth = maxPolaroidWidth;
-    let polaroidHeight = polaroidWidth * polaroidAspectRatio;
-
-    if (polaroidHeight > maxPolaroidHeight) {
-        polaroidHeight = maxPolaroidHeight;
-        polaroidWidth = polaroidHeight / polaroidAspectRatio;
+    // 4. Lay out and draw each polaroid
+    const { arrangement } = settings;
+    const slots = arrangement
+        ? arrangeFromDesk(arrangement, { ...page, top: headerHeight })
+        : template.arrange(entries.length, { ...page, top: headerHeight }, random);
+
+    // Draw later polaroids first so earlier ones are rendered on top, unless the desk says otherwise
+    const order = entries.map((_, index) => index).reverse();
+    if (arrangement) order.sort((a, b) => arrangement[a].z - arrangement[b].z);
+    for (const index of order) {
+        drawPolaroid(ctx, loadedImages[index], entries[index].caption, slots[index], options.captionFont);
     }
 
-    const imageContainerWidth = polaroidWidth * 0.9;
-    const imageContainerHeight = imageContainerWidth; // Classic square-ish photo area
+    return canvas;
+}
 
-    // Reverse the drawing order: draw bottom rows first so top rows are rendered on top
-    const reversedImages = [...imagesWithDecades].reverse();
-    reversedImages.forEach(({ decade, img }, reversedIndex) => {
-        // Calculate the original index to determine grid position
-        const index = imagesWithDecades.length - 1 - reversedIndex;
-
-        const row = Math.floor(index / grid.cols);
-        const col = index % grid.cols;
-
-        // Calculate top-left corner of the polaroid within its grid cell
-        const x = grid.padding * (col + 1) + cellWidth * col + (cellWidth - polaroidWidth) / 2;
-        const y = contentTopMargin + grid.padding * (row + 1) + cellHeight * row + (cellHeight - polaroidHeight) / 2;
-        
-        ctx.save();
-        
-        // Translate context to the center of the polaroid for rotation
-        ctx.translate(x + polaroidWidth / 2, y + polaroidHeight / 2);
-        
-        // Apply a slight, random rotation for a hand-placed look
-        const rotation = (Math.random() - 0.5) * 0.1; // Radians (approx. +/- 2.8 degrees)
-        ctx.rotate(rotation);
-        
-        // Draw a soft shadow
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-        ctx.shadowBlur = 35;
-        ctx.shadowOffsetX = 5;
-        ctx.shadowOffsetY = 10;
-        
-        // Draw the white polaroid frame (centered at the new origin)
-        ctx.fillStyle = '#fff';
-        ctx.fillRect(-polaroidWidth / 2, -polaroidHeight / 2, polaroidWidth, polaroidHeight);
-        
-        // Remove shadow for subsequent drawing
-        ctx.shadowColor = 'transparent';
-        
-        // Calculate image dimensions to fit while maintaining aspect ratio
-        const aspectRatio = img.naturalWidth / img.naturalHeight;
-        let drawWidth = imageContainerWidth;
-        let drawHeight = drawWidth / aspectRatio;
-
-        if (drawHeight > imageContainerHeight) {
-            drawHeight = imageContainerHeight;
-            drawWidth = drawHeight * aspectRatio;
-        }
+const COMPARISON_WIDTH = 2400;
+const COMPARISON_HEIGHT = 1500;
 
-        // Calculate position to center the image within its container area
-        const imageAreaTopMargin = (polaroidWidth - imageContainerWidth) / 2;
-        const imageContainerY = -polaroidHeight / 2 + imageAreaTopMargin;
-        
-        const imgX = -drawWidth / 2; // Horizontally centered due to context translation
-        const imgY = imageContainerY + (imageContainerHeight - drawHeight) / 2;
-        
-        ctx.drawImage(img, imgX, imgY, drawWidth, drawHeight);
-        
-        // Draw the handwritten caption
-        ctx.fillStyle = '#222';
-        ctx.font = `60px 'Permanent Marker', cursive`;
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-
-        const captionAreaTop = imageContainerY + imageContainerHeight;
-        const captionAreaBottom = polaroidHeight / 2;
-        const captionY = captionAreaTop + (captionAreaBottom - captionAreaTop) / 2;
-
-        ctx.fillText(decade, 0, captionY);
-        
-        ctx.restore(); // Restore context to pre-transformation state
-    });
+/**
+ * Renders a before/after pair as two polaroids side by side on the album background.
+ * @returns A JPEG data URL.
+ */
+export async function createComparisonImage(before: AlbumEntry, after: AlbumEntry, options: Partial<AlbumOptions> = {}): Promise<string> {
+    const albumOptions: AlbumOptions = { ...DEFAULT_ALBUM_OPTIONS, ...options };
+    const canvas = document.createElement('canvas');
+    canvas.width = COMPARISON_WIDTH;
+    canvas.height = COMPARISON_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
 
-    // Convert canvas to a high-quality JPEG and return the data URL
+    drawAlbumBackground(ctx, albumOptions, canvas.width, canvas.height, createSeededRandom(1));
+    const [beforeImg, afterImg] = await Promise.all([loadImage(before.url), loadImage(after.url)]);
+    const width = COMPARISON_WIDTH * 0.38;
+    const y = COMPARISON_HEIGHT / 2;
+    drawPolaroid(ctx, beforeImg, before.caption, { x: COMPARISON_WIDTH * 0.27, y, width, rotation: -0.03 }, albumOptions.captionFont);
+    drawPolaroid(ctx, afterImg, after.caption, { x: COMPARISON_WIDTH * 0.73, y, width, rotation: 0.03 }, albumOptions.captionFont);
     return canvas.toDataURL('image/jpeg', 0.9);
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createSeededRandom, delay, loadImage } from './utils.ts';
+import { type AlbumEntry, drawPolaroid } from './albumUtils.ts';
+import { GifEncoder } from './gifEncoder.ts';
+
+export type AnimationFormat = 'gif' | 'webm';
+
+export interface AnimationSettings {
+    /** How long each photo is held, in milliseconds. */
+    frameDuration: number;
+    /** Length of the crossfade into the next photo, in milliseconds. 0 cuts straight over. */
+    transitionDuration: number;
+}
+
+interface AnimationStill {
+    caption: string;
+    image: HTMLImageElement;
+    rotation: number;
+}
+
+/**
+ * The photos of a "time travel" animation, loaded and ready to draw.
+ */
+export interface TimeTravelAnimation {
+    stills: AnimationStill[];
+}
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+    frameDuration: 1500,
+    transitionDuration: 500,
+};
+
+export const ANIMATION_WIDTH = 480;
+export const ANIMATION_HEIGHT = 600;
+const POLAROID_WIDTH = 400;
+const BACKGROUND = '#111';
+// Crossfades in a GIF are a run of short frames, one per step
+const GIF_TRANSITION_STEP_MS = 60;
+const WEBM_FPS = 30;
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Loads the source photo followed by each era, in order.
+ * The caption on the first frame matches the one on the uploaded photo's card.
+ */
+export async function loadTimeTravelAnimation(sourceImage: string, entries: AlbumEntry[]): Promise<TimeTravelAnimation> {
+    const captions = ['Your Photo', ...entries.map(entry => entry.caption)];
+    const images = await Promise.all([sourceImage, ...entries.map(entry => entry.url)].map(loadImage));
+    const random = createSeededRandom(captions.length);
+    return {
+        stills: images.map((image, index) => ({
+            caption: captions[index],
+            image,
+            rotation: (random() - 0.5) * 0.08,
+        })),
+    };
+}
+
+/**
+ * Total length of one loop, from the source photo back round to it.
+ */
+export function getAnimationDuration(animation: TimeTravelAnimation, settings: AnimationSettings): number {
+    return animation.stills.length * (settings.frameDuration + settings.transitionDuration);
+}
+
+function drawStill(ctx: CanvasRenderingContext2D, still: AnimationStill, opacity: number) {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    drawPolaroid(ctx, still.image, still.caption, {
+        x: ANIMATION_WIDTH / 2,
+        y: ANIMATION_HEIGHT / 2,
+        width: POLAROID_WIDTH,
+        rotation: still.rotation,
+    });
+    ctx.restore();
+}
+
+/**
+ * Draws the animation as it looks `time` milliseconds in. Used for the preview and both exporters.
+ */
+export function drawAnimationFrame(ctx: CanvasRenderingContext2D, animation: TimeTravelAnimation, settings: AnimationSettings, time: number) {
+    const { stills } = animation;
+    const segment = settings.frameDuration + settings.transitionDuration;
+    const elapsed = time % (segment * stills.length);
+    const index = Math.floor(elapsed / segment);
+    const intoSegment = elapsed - index * segment;
+
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, ANIMATION_WIDTH, ANIMATION_HEIGHT);
+    drawStill(ctx, stills[index], 1);
+    if (intoSegment > settings.frameDuration && settings.transitionDuration > 0) {
+        const progress = (intoSegment - settings.frameDuration) / settings.transitionDuration;
+        drawStill(ctx, stills[(index + 1) % stills.length], progress);
+    }
+}
+
+function createAnimationCanvas(): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+    const canvas = document.createElement('canvas');
+    canvas.width = ANIMATION_WIDTH;
+    canvas.height = ANIMATION_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    return { canvas, ctx };
+}
+
+/**
+ * Encodes one loop as an animated GIF: a long frame per photo, then a few short ones for the crossfade.
+ * @param onProgress Called with 0..1 as frames are encoded.
+ */
+export async function createTimeTravelGif(
+    animation: TimeTravelAnimation,
+    settings: AnimationSettings,
+    onProgress?: (progress: number) => void,
+): Promise<Blob> {
+    const { ctx } = createAnimationCanvas();
+    const encoder = new GifEncoder(ANIMATION_WIDTH, ANIMATION_HEIGHT);
+    const segment = settings.frameDuration + settings.transitionDuration;
+    const steps = settings.transitionDuration > 0 ? Math.max(1, Math.round(settings.transitionDuration / GIF_TRANSITION_STEP_MS)) : 0;
+    const frameCount = animation.stills.length * (1 + steps);
+    let encoded = 0;
+
+    const addFrame = async (time: number, duration: number) => {
+        drawAnimationFrame(ctx, animation, settings, time);
+        encoder.addFrame(ctx.getImageData(0, 0, ANIMATION_WIDTH, ANIMATION_HEIGHT).data, duration);
+        onProgress?.(++encoded / frameCount);
+        // Yield so the page can repaint between frames
+        await delay(0);
+    };
+
+    for (let index = 0; index < animation.stills.length; index++) {
+        const start = index * segment;
+        await addFrame(start, settings.frameDuration);
+        for (let step = 1; step <= steps; step++) {
+            const time = start + settings.frameDuration + (step / (steps + 1)) * settings.transitionDuration;
+            await addFrame(time, settings.transitionDuration / steps);
+        }
+    }
+    return encoder.toBlob();
+}
+
+/**
+ * The best WebM type this browser can record, or null when it can't record WebM at all.
+ */
+export function getWebmMimeType(): string | null {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Records one loop as WebM by playing the animation on a canvas in real time through MediaRecorder.
+ * @param onProgress Called with 0..1 as the recording plays.
+ */
+export async function createTimeTravelWebm(
+    animation: TimeTravelAnimation,
+    settings: AnimationSettings,
+    onProgress?: (progress: number) => void,
+): Promise<Blob> {
+    const mimeType = getWebmMimeType();
+    if (!mimeType) {
+        throw new Error('This browser cannot record WebM video.');
+    }
+    const { canvas, ctx } = createAnimationCanvas();
+    const duration = getAnimationDuration(animation, settings);
+    // Draw before the stream starts so the first frame isn't blank
+    drawAnimationFrame(ctx, animation, settings, 0);
+
+    const stream = canvas.captureStream(WEBM_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    // A recorder that fails stops on its own; end the loop early and report it
+    let failure: Error | null = null;
+    recorder.onerror = () => { failure = new Error('The browser stopped recording the video.'); };
+
+    try {
+        recorder.start();
+        const startedAt = performance.now();
+        await new Promise<void>(resolve => {
+            const tick = () => {
+                const elapsed = performance.now() - startedAt;
+                if (elapsed >= duration || failure) {
+                    resolve();
+                    return;
+                }
+                drawAnimationFrame(ctx, animation, settings, elapsed);
+                onProgress?.(elapsed / duration);
+                requestAnimationFrame(tick);
+            };
+            tick();
+        });
+        if (failure) throw failure;
+        recorder.stop();
+        await stopped;
+    } finally {
+        stream.getTracks().forEach(track => track.stop());
+    }
+    onProgress?.(1);
+
+    return new Blob(chunks, { type: 'video/webm' });
+}
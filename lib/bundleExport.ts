@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GeneratedImage } from '../types.ts';
+import { dataUrlToBytes, getDataUrlExtension, slugify } from './utils.ts';
+import { type AlbumEntry, createAlbumPage } from './albumUtils.ts';
+import { type Era, getEraSlug } from './eraCatalogue.ts';
+import { getSelectedVariant } from './variants.ts';
+import { type FilmFilter, applyFilmFilter } from './filmFilters.ts';
+import { ZipWriter } from './zipWriter.ts';
+
+export interface BundleSettings {
+    sourceImage: string;
+    eras: Era[];
+    /** Keyed by era id. Eras without a finished variant are left out. */
+    results: Record<string, GeneratedImage>;
+}
+
+/**
+ * Where one file in the bundle came from.
+ */
+export interface ManifestFile {
+    path: string;
+    kind: 'source' | 'era' | 'album';
+    era?: string;
+    prompt?: string;
+    promptVersion?: number;
+    provider?: string;
+    model?: string;
+    /** ISO 8601. */
+    createdAt?: string;
+    /** Which of the era's takes this is, counting from 0. */
+    variantIndex?: number;
+    variantCount?: number;
+    /** Likeness to the original photo, 0..1. */
+    consistency?: number;
+    /** The local film look baked into this file, if any. */
+    filmFilter?: FilmFilter;
+}
+
+export interface BundleManifest {
+    app: 'Past Forward';
+    exportedAt: string;
+    files: ManifestFile[];
+}
+
+/**
+ * Builds a ZIP with the original upload, every era's favourite take, the rendered album
+ * and a `manifest.json` recording how each image was made.
+ */
+export async function createResultsBundle({ sourceImage, eras, results }: BundleSettings): Promise<Blob> {
+    const zip = new ZipWriter();
+    const files: ManifestFile[] = [];
+
+    const sourcePath = `original.${getDataUrlExtension(sourceImage)}`;
+    zip.addFile(sourcePath, dataUrlToBytes(sourceImage));
+    files.push({ path: sourcePath, kind: 'source' });
+
+    const albumEntries: AlbumEntry[] = [];
+    for (const [index, era] of eras.entries()) {
+        const image = results[era.id];
+        const variant = getSelectedVariant(image);
+        if (!image || !variant) continue;
+        const url = image.filmFilter ? await applyFilmFilter(variant.url, image.filmFilter, era.caption) : variant.url;
+        // Numbered so the files sort in catalogue order and same-named eras don't collide
+        const path = `eras/${String(index + 1).padStart(2, '0')}-${getEraSlug(era)}.${getDataUrlExtension(url)}`;
+        zip.addFile(path, dataUrlToBytes(url));
+        files.push({
+            path,
+            kind: 'era',
+            era: era.caption,
+            prompt: variant.prompt,
+            promptVersion: variant.promptVersion,
+            provider: variant.provider,
+            model: variant.model,
+            createdAt: new Date(variant.createdAt).toISOString(),
+            variantIndex: image.variants.indexOf(variant),
+            variantCount: image.variants.length,
+            consistency: variant.consistency,
+            filmFilter: image.filmFilter,
+        });
+        albumEntries.push({ caption: era.caption, url });
+    }
+
+    if (albumEntries.length > 0) {
+        const album = await createAlbumPage(albumEntries);
+        zip.addFile('album.jpg', dataUrlToBytes(album));
+        files.push({ path: 'album.jpg', kind: 'album' });
+    }
+
+    const manifest: BundleManifest = { app: 'Past Forward', exportedAt: new Date().toISOString(), files };
+    zip.addFile('manifest.json', JSON.stringify(manifest, null, 2));
+    return zip.toBlob();
+}
+
+/**
+ * One person's photos, e.g. a guest in a batch run.
+ */
+export interface PersonAlbum {
+    /** Used for the file name, e.g. the original photo's file name. */
+    name: string;
+    entries: AlbumEntry[];
+}
+
+/**
+ * Renders an album page per person and zips them together, skipping anyone without results.
+ */
+export async function createAlbumsBundle(albums: PersonAlbum[]): Promise<Blob> {
+    const zip = new ZipWriter();
+    const files: ManifestFile[] = [];
+    // One at a time, so only one print-size canvas is held in memory
+    for (const [index, album] of albums.entries()) {
+        if (album.entries.length === 0) continue;
+        const path = `albums/${String(index + 1).padStart(2, '0')}-${slugify(album.name) || 'photo'}.jpg`;
+        zip.addFile(path, dataUrlToBytes(await createAlbumPage(album.entries)));
+        files.push({ path, kind: 'album' });
+    }
+    const manifest: BundleManifest = { app: 'Past Forward', exportedAt: new Date().toISOString(), files };
+    zip.addFile('manifest.json', JSON.stringify(manifest, null, 2));
+    return zip.toBlob();
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DeskPosition {
+    top: string;
+    left: string;
+    rotate: number;
+}
+
+// Hand-placed arrangement for the classic six decades.
+const POSITIONS: DeskPosition[] = [
+    { top: '5%', left: '10%', rotate: -8 },
+    { top: '15%', left: '60%', rotate: 5 },
+    { top: '45%', left: '5%', rotate: 3 },
+    { top: '2%', left: '35%', rotate: 10 },
+    { top: '40%', left: '70%', rotate: -12 },
+    { top: '50%', left: '38%', rotate: -3 },
+];
+
+const BASE_DESK_HEIGHT = 600;
+const ROW_HEIGHT = 300;
+// Room below the last row for the bottom of a card (cards are taller than a row, they overlap).
+const CARD_OVERHANG = 150;
+const MAX_COLUMNS = 4;
+
+/**
+ * Scatters `count` cards across the desk. Small sets use the hand-placed positions;
+ * larger ones fall back to a loose grid with a deterministic tilt so nothing lines up too neatly.
+ */
+export function getDeskLayout(count: number): { positions: DeskPosition[]; height: number } {
+    if (count <= POSITIONS.length) {
+        return { positions: POSITIONS.slice(0, count), height: BASE_DESK_HEIGHT };
+    }
+
+    const columns = Math.min(MAX_COLUMNS, Math.ceil(Math.sqrt(count)));
+    const rows = Math.ceil(count / columns);
+    const height = Math.max(BASE_DESK_HEIGHT, rows * ROW_HEIGHT + CARD_OVERHANG);
+
+    const positions = Array.from({ length: count }, (_, index) => {
+        const row = Math.floor(index / columns);
+        const col = index % columns;
+        // Stagger alternate rows and offset each card a little, seeded by its index
+        const jitter = ((index * 37) % 11) - 5;
+        const stagger = row % 2 === 1 ? 100 / columns / 3 : 0;
+        return {
+            top: `${row * ROW_HEIGHT + jitter * 4}px`,
+            left: `${Math.min(75, (col / columns) * 100 + stagger + jitter / 3 + 2)}%`,
+            rotate: ((index * 7) % 21) - 10,
+        };
+    });
+
+    return { positions, height };
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type DeskPosition, getDeskLayout } from './deskLayout.ts';
+
+/**
+ * Where one card lies on the desk. `x` and `y` are its top-left corner as fractions of the desk's width and height.
+ */
+export interface DeskPlacement {
+    x: number;
+    y: number;
+    /** Degrees. */
+    rotate: number;
+    /** Stacking order; higher is on top. */
+    z: number;
+}
+
+/**
+ * The user's arrangement of the desk. Cards they haven't touched keep their scattered spot.
+ */
+export interface DeskState {
+    /** Keyed by generation target id. */
+    cards: Record<string, DeskPlacement>;
+    snapToGrid: boolean;
+}
+
+/**
+ * A card as it appears on the desk, in pixels with `x`/`y` at its centre, for laying out an album like it.
+ */
+export interface DeskCardRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Degrees. */
+    rotate: number;
+    z: number;
+}
+
+// Matches the polaroid's w-80 and 3:4 aspect
+export const DESK_CARD_WIDTH = 320;
+export const DESK_CARD_HEIGHT = 427;
+export const DESK_GRID_SIZE = 40;
+// Space between cards in a tidied desk
+const TIDY_GAP = 24;
+
+export function createDeskState(): DeskState {
+    return { cards: {}, snapToGrid: false };
+}
+
+/**
+ * Converts a scattered-layout position, given in % or px, to fractions of the desk.
+ */
+function fromDeskPosition(position: DeskPosition, height: number, z: number): DeskPlacement {
+    const toFraction = (value: string, size: number) => value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value) / size;
+    return { x: toFraction(position.left, 1), y: toFraction(position.top, height), rotate: position.rotate, z };
+}
+
+/**
+ * Where each of `ids` lies: its stored placement, or its spot in the default scatter.
+ */
+export function getDeskPlacements(state: DeskState, ids: string[]): DeskPlacement[] {
+    const layout = getDeskLayout(ids.length);
+    return ids.map((id, index) => state.cards[id] ?? fromDeskPosition(layout.positions[index], layout.height, index));
+}
+
+/**
+ * Brings card `id`, one of the desk's `ids`, to the top of the pile. Unchanged if it is already there.
+ */
+export function raiseCard(state: DeskState, ids: string[], id: string): DeskState {
+    const placements = getDeskPlacements(state, ids);
+    const current = placements[ids.indexOf(id)];
+    if (!current) return state;
+    const top = Math.max(...placements.map(placement => placement.z));
+    if (current.z === top && placements.filter(placement => placement.z === top).length === 1) return state;
+    return { ...state, cards: { ...state.cards, [id]: { ...current, z: top + 1 } } };
+}
+
+/**
+ * Records card `id` dropped `offset` pixels from its spot, kept on the desk and snapped to the grid when that's on.
+ */
+export function moveCard(
+    state: DeskState,
+    ids: string[],
+    id: string,
+    offset: { x: number; y: number },
+    desk: { width: number; height: number },
+): DeskState {
+    const current = getDeskPlacements(state, ids)[ids.indexOf(id)];
+    if (!current) return state;
+    let left = current.x * desk.width + offset.x;
+    let top = current.y * desk.height + offset.y;
+    if (state.snapToGrid) {
+        left = Math.round(left / DESK_GRID_SIZE) * DESK_GRID_SIZE;
+        top = Math.round(top / DESK_GRID_SIZE) * DESK_GRID_SIZE;
+    }
+    left = Math.min(Math.max(0, left), Math.max(0, desk.width - DESK_CARD_WIDTH));
+    top = Math.min(Math.max(0, top), Math.max(0, desk.height - DESK_CARD_HEIGHT));
+    return {
+        ...state,
+        cards: { ...state.cards, [id]: { ...current, x: left / desk.width, y: top / desk.height } },
+    };
+}
+
+/**
+ * Squares the cards up into even rows, first card top left, overlapping only when the desk is too small.
+ */
+export function tidyDesk(state: DeskState, ids: string[], desk: { width: number; height: number }): DeskState {
+    const columns = Math.max(1, Math.min(ids.length, Math.floor((desk.width + TIDY_GAP) / (DESK_CARD_WIDTH + TIDY_GAP))));
+    const rows = Math.ceil(ids.length / columns);
+    const stepX = columns > 1 ? Math.min(DESK_CARD_WIDTH + TIDY_GAP, (desk.width - DESK_CARD_WIDTH) / (columns - 1)) : 0;
+    const stepY = rows > 1 ? Math.min(DESK_CARD_HEIGHT + TIDY_GAP, Math.max(0, desk.height - DESK_CARD_HEIGHT) / (rows - 1)) : 0;
+    // Centre the block of cards across the desk
+    const marginX = Math.max(0, (desk.width - (stepX * (columns - 1) + DESK_CARD_WIDTH)) / 2);
+
+    const cards: Record<string, DeskPlacement> = {};
+    ids.forEach((id, index) => {
+        const row = Math.floor(index / columns);
+        const col = index % columns;
+        cards[id] = { x: (marginX + col * stepX) / desk.width, y: (row * stepY) / desk.height, rotate: 0, z: index };
+    });
+    return { ...state, cards };
+}
+
+/**
+ * The cards as they lie on screen, for an album page that copies the user's own arrangement.
+ */
+export function getDeskCardRects(placements: DeskPlacement[], desk: { width: number; height: number }): DeskCardRect[] {
+    return placements.map(placement => ({
+        x: placement.x * desk.width + DESK_CARD_WIDTH / 2,
+        y: placement.y * desk.height + DESK_CARD_HEIGHT / 2,
+        width: DESK_CARD_WIDTH,
+        height: DESK_CARD_HEIGHT,
+        rotate: placement.rotate,
+        z: placement.z,
+    }));
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface ShakeOptions {
+    /** Change in acceleration between readings, in m/s², that counts as a jolt. */
+    threshold?: number;
+    /** Jolts needed within `windowMs` to count as a shake. */
+    jolts?: number;
+    windowMs?: number;
+    /** Quiet time after a shake, so one shake re-rolls once. */
+    cooldownMs?: number;
+}
+
+const DEFAULT_SHAKE_OPTIONS: Required<ShakeOptions> = {
+    threshold: 15,
+    jolts: 3,
+    windowMs: 1000,
+    cooldownMs: 2000,
+};
+
+// iOS 13+ adds a static requestPermission that must be called from a tap before any motion events arrive
+type MotionPermissionRequest = () => Promise<'granted' | 'denied'>;
+
+function getPermissionRequest(): MotionPermissionRequest | undefined {
+    if (typeof DeviceMotionEvent === 'undefined') return undefined;
+    const request = (DeviceMotionEvent as unknown as { requestPermission?: MotionPermissionRequest }).requestPermission;
+    return typeof request === 'function' ? request : undefined;
+}
+
+export function isMotionSupported(): boolean {
+    return typeof window !== 'undefined' && 'DeviceMotionEvent' in window;
+}
+
+/**
+ * Whether motion events wait on the user granting permission, as on iOS.
+ */
+export function needsMotionPermission(): boolean {
+    return Boolean(getPermissionRequest());
+}
+
+/**
+ * Shows the browser's motion permission prompt where there is one. Call it from a tap or click.
+ * Resolves true once motion events can be used.
+ */
+export async function requestMotionPermission(): Promise<boolean> {
+    const request = getPermissionRequest();
+    if (!request) return isMotionSupported();
+    try {
+        return (await request()) === 'granted';
+    } catch (err) {
+        console.warn("Motion permission request failed:", err);
+        return false;
+    }
+}
+
+/**
+ * Calls `onShake` whenever the device is shaken: several sharp changes in acceleration in quick succession.
+ * @returns A function that stops listening.
+ */
+export function watchShake(onShake: () => void, options: ShakeOptions = {}): () => void {
+    const { threshold, jolts, windowMs, cooldownMs } = { ...DEFAULT_SHAKE_OPTIONS, ...options };
+    let last: { x: number; y: number; z: number } | null = null;
+    let joltTimes: number[] = [];
+    let lastShake = 0;
+
+    const handleMotion = (event: DeviceMotionEvent) => {
+        const reading = event.accelerationIncludingGravity;
+        if (reading?.x == null || reading.y == null || reading.z == null) return;
+        const current = { x: reading.x, y: reading.y, z: reading.z };
+        const previous = last;
+        last = current;
+        if (!previous) return;
+
+        const change = Math.abs(current.x - previous.x) + Math.abs(current.y - previous.y) + Math.abs(current.z - previous.z);
+        if (change < threshold) return;
+
+        const now = Date.now();
+        if (now - lastShake < cooldownMs) return;
+        joltTimes = [...joltTimes.filter(time => now - time < windowMs), now];
+        if (joltTimes.length >= jolts) {
+            joltTimes = [];
+            lastShake = now;
+            onShake();
+        }
+    };
+
+    window.addEventListener('devicemotion', handleMotion);
+    return () => window.removeEventListener('devicemotion', handleMotion);
+}
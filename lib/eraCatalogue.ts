@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { type EraStyle, buildFallbackPrompt, buildPrompt, getPromptSlots, renderTemplate } from './promptBuilder.ts';
+import { slugify } from './utils.ts';
+
+/**
+ * A single era the time machine can travel to.
+ * Templates may use any prompt slot as a placeholder, e.g. `{era}` or `{clothing}`.
+ */
+export interface Era {
+    id: string;
+    caption: string;
+    /** Overrides for the styling slots; anything left blank uses the era's defaults. */
+    style?: Partial<EraStyle>;
+    /** Replaces the shared versioned template for this era only. */
+    promptTemplate?: string;
+    /** Simpler prompt used when the primary one is blocked. The shared fallback template is used when omitted. */
+    fallbackPrompt?: string;
+}
+
+export interface EraPrompts {
+    prompt: string;
+    fallbackPrompt: string;
+}
+
+export const DEFAULT_ERAS: Era[] = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'].map(decade => ({
+    id: decade,
+    caption: decade,
+}));
+
+const STORAGE_KEY = 'past-forward:eras';
+
+/**
+ * Builds the primary and fallback prompts for an era through the shared prompt builder.
+ */
+export function getEraPrompts(era: Era, subject?: string): EraPrompts {
+    const slots = getPromptSlots(era.caption, era.style, subject);
+    return {
+        prompt: era.promptTemplate?.trim() ? buildPrompt(slots, era.promptTemplate) : buildPrompt(slots),
+        fallbackPrompt: era.fallbackPrompt?.trim() ? renderTemplate(era.fallbackPrompt, slots) : buildFallbackPrompt(slots),
+    };
+}
+
+export function createEra(caption: string = ''): Era {
+    return {
+        id: `era-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+        caption,
+    };
+}
+
+/**
+ * Turns a caption into something safe to use in a file name.
+ */
+export function getEraSlug(era: Era): string {
+    return slugify(era.caption) || era.id;
+}
+
+function isEra(value: unknown): value is Era {
+    return typeof value === 'object' && value !== null
+        && 'id' in value && typeof value.id === 'string'
+        && 'caption' in value && typeof value.caption === 'string';
+}
+
+/**
+ * Loads the user's saved catalogue from localStorage, falling back to the default decades.
+ */
+export function loadEraCatalogue(): Era[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        if (Array.isArray(stored) && stored.length > 0 && stored.every(isEra)) {
+            return stored;
+        }
+    } catch (err) {
+        console.warn("Ignoring unreadable era catalogue:", err);
+    }
+    return DEFAULT_ERAS;
+}
+
+export function saveEraCatalogue(eras: Era[]): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(eras));
+    } catch (err) {
+        console.warn("Could not save era catalogue:", err);
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './utils.ts';
+
+export interface ConsistencySettings {
+    /** Re-generate results that score below `threshold`. */
+    autoReroll: boolean;
+    /** 0..1. */
+    threshold: number;
+    /** Extra generations allowed per era when re-rolling. */
+    maxAttempts: number;
+}
+
+/**
+ * Comparable features of the face in one image.
+ */
+export interface FaceFeatures {
+    /** 64-bit difference hash of the face's structure, as 0/1 values. */
+    hash: Uint8Array;
+    /** Normalised colour histogram, 4 bins per channel. */
+    histogram: Float32Array;
+}
+
+/**
+ * A rectangle in image pixels.
+ */
+export interface Region {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const SETTINGS_KEY = 'past-forward:consistency';
+export const DEFAULT_CONSISTENCY_SETTINGS: ConsistencySettings = {
+    autoReroll: false,
+    threshold: 0.6,
+    maxAttempts: 2,
+};
+
+// The parts of the Shape Detection API's FaceDetector used here; it isn't in TypeScript's DOM types
+interface FaceDetector {
+    detect(image: HTMLImageElement | HTMLCanvasElement): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+type FaceDetectorConstructor = new (options: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetector;
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+const HISTOGRAM_SIZE = 32;
+const HISTOGRAM_BINS = 4;
+// Structure survives restyling far better than colour, which eras like the 1950s change wholesale
+const HASH_WEIGHT = 0.7;
+
+/**
+ * Finds faces with the browser's FaceDetector. Returns none where there is no detector.
+ */
+export async function detectFaces(img: HTMLImageElement | HTMLCanvasElement, maxFaces: number = 1): Promise<Region[]> {
+    if (!('FaceDetector' in window)) return [];
+    const Detector = window.FaceDetector as FaceDetectorConstructor;
+    try {
+        const faces = await new Detector({ fastMode: true, maxDetectedFaces: maxFaces }).detect(img);
+        return faces.map(({ boundingBox: { x, y, width, height } }) => ({ x, y, width, height }));
+    } catch (err) {
+        console.warn("Face detection failed:", err);
+        return [];
+    }
+}
+
+/**
+ * Finds the face with the browser's FaceDetector. Returns null where there is none, or no face was found.
+ */
+export async function detectFace(img: HTMLImageElement | HTMLCanvasElement): Promise<Region | null> {
+    const [face] = await detectFaces(img);
+    return face ?? null;
+}
+
+/**
+ * Finds the face where the browser can. Elsewhere, assumes a portrait: the upper middle of
+ * the centred square, which is also where generated results keep the face.
+ */
+async function findFaceRegion(img: HTMLImageElement): Promise<Region> {
+    const face = await detectFace(img);
+    if (face) return face;
+    const side = Math.min(img.naturalWidth, img.naturalHeight);
+    const left = (img.naturalWidth - side) / 2;
+    const top = (img.naturalHeight - side) / 2;
+    return { x: left + side * 0.25, y: top + side * 0.1, width: side * 0.5, height: side * 0.6 };
+}
+
+function sampleRegion(img: HTMLImageElement, region: Region, width: number, height: number): Uint8ClampedArray {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Extracts the face features of an image, entirely on-device.
+ */
+export async function getFaceFeatures(url: string): Promise<FaceFeatures> {
+    const img = await loadImage(url);
+    const region = await findFaceRegion(img);
+
+    // Difference hash: is each pixel brighter than its right-hand neighbour?
+    const small = sampleRegion(img, region, HASH_WIDTH, HASH_HEIGHT);
+    const luma = (i: number) => small[i * 4] * 0.299 + small[i * 4 + 1] * 0.587 + small[i * 4 + 2] * 0.114;
+    const hash = new Uint8Array((HASH_WIDTH - 1) * HASH_HEIGHT);
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+        for (let x = 0; x < HASH_WIDTH - 1; x++) {
+            const i = y * HASH_WIDTH + x;
+            hash[y * (HASH_WIDTH - 1) + x] = luma(i) > luma(i + 1) ? 1 : 0;
+        }
+    }
+
+    const pixels = sampleRegion(img, region, HISTOGRAM_SIZE, HISTOGRAM_SIZE);
+    const histogram = new Float32Array(HISTOGRAM_BINS ** 3);
+    const pixelCount = HISTOGRAM_SIZE * HISTOGRAM_SIZE;
+    for (let i = 0; i < pixelCount; i++) {
+        const [r, g, b] = [pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]].map(value => Math.floor(value * HISTOGRAM_BINS / 256));
+        histogram[(r * HISTOGRAM_BINS + g) * HISTOGRAM_BINS + b] += 1 / pixelCount;
+    }
+    return { hash, histogram };
+}
+
+/**
+ * Similarity of two faces from 0 (nothing alike) to 1 (identical features).
+ */
+export function compareFaceFeatures(a: FaceFeatures, b: FaceFeatures): number {
+    let matchingBits = 0;
+    a.hash.forEach((bit, index) => { if (bit === b.hash[index]) matchingBits++; });
+    let overlap = 0;
+    a.histogram.forEach((share, index) => { overlap += Math.min(share, b.histogram[index]); });
+    // Unrelated images still agree on about half the bits by chance, so that counts as 0
+    const structure = Math.max(0, (matchingBits / a.hash.length - 0.5) * 2);
+    return HASH_WEIGHT * structure + (1 - HASH_WEIGHT) * overlap;
+}
+
+// The source photo is compared against every era, so its features are worth keeping
+let cachedSource: { url: string; features: Promise<FaceFeatures> } | null = null;
+
+/**
+ * Scores how closely the person in `resultUrl` resembles the one in `sourceUrl`, from 0 to 1.
+ */
+export async function scoreConsistency(sourceUrl: string, resultUrl: string): Promise<number> {
+    if (cachedSource?.url !== sourceUrl) {
+        const features = getFaceFeatures(sourceUrl).catch(err => {
+            // Don't keep a failed decode around, or every later check would fail with it
+            if (cachedSource?.features === features) cachedSource = null;
+            throw err;
+        });
+        cachedSource = { url: sourceUrl, features };
+    }
+    const [source, result] = await Promise.all([cachedSource.features, getFaceFeatures(resultUrl)]);
+    return compareFaceFeatures(source, result);
+}
+
+export function loadConsistencySettings(): ConsistencySettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+        if (stored && typeof stored === 'object') {
+            return { ...DEFAULT_CONSISTENCY_SETTINGS, ...stored };
+        }
+    } catch (err) {
+        console.warn("Ignoring unreadable consistency settings:", err);
+    }
+    return DEFAULT_CONSISTENCY_SETTINGS;
+}
+
+export function saveConsistencySettings(settings: ConsistencySettings): void {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (err) {
+        console.warn("Could not save consistency settings:", err);
+    }
+}
@@ -0,0 +1,255 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createSeededRandom, hashString, loadImage } from './utils.ts';
+import { getEraYear } from './timeline.ts';
+
+export type FilmPresetId = 'kodachrome' | 'seventies-fade' | 'eighties-flash' | 'disposable';
+
+/**
+ * A local film look over a photo, applied on this device after generation.
+ */
+export interface FilmFilter {
+    preset: FilmPresetId;
+    /** 0..1, how far the look is blended over the untouched photo. */
+    strength: number;
+    /** Prints an orange camera date in the corner. */
+    dateStamp: boolean;
+}
+
+type Curve = [number, number][];
+
+interface FilmPreset {
+    label: string;
+    /** The decade the stock or camera belongs to, for suggesting a preset per era. */
+    decade: number;
+    /** Tone curves per channel as [in, out] points, 0..255, first at 0 and last at 255. */
+    curves: { r: Curve; g: Curve; b: Curve };
+    saturation: number;
+    /** How far the shadows are lifted towards `fadeColour`, 0..1. */
+    fade: number;
+    fadeColour: [number, number, number];
+    /** On-camera flash: a bright centre falling off to dark edges, 0..1. */
+    flash: number;
+    /** Orange light leak bleeding in from one edge, 0..1. */
+    lightLeak: number;
+    /** Grain amplitude in 0..255 steps. */
+    grain: number;
+    vignette: number;
+    /** Whether the look starts with a date stamp. */
+    dateStamp: boolean;
+}
+
+export const FILM_PRESETS: Record<FilmPresetId, FilmPreset> = {
+    'kodachrome': {
+        label: 'Kodachrome',
+        decade: 1950,
+        curves: {
+            r: [[0, 0], [64, 58], [128, 136], [192, 206], [255, 250]],
+            g: [[0, 0], [64, 56], [128, 126], [192, 196], [255, 245]],
+            b: [[0, 8], [64, 60], [128, 118], [192, 180], [255, 230]],
+        },
+        saturation: 1.25,
+        fade: 0,
+        fadeColour: [0, 0, 0],
+        flash: 0,
+        lightLeak: 0,
+        grain: 10,
+        vignette: 0.3,
+        dateStamp: false,
+    },
+    'seventies-fade': {
+        label: '70s Fade',
+        decade: 1970,
+        curves: {
+            r: [[0, 30], [64, 88], [128, 150], [192, 208], [255, 245]],
+            g: [[0, 24], [64, 78], [128, 136], [192, 192], [255, 232]],
+            b: [[0, 30], [64, 70], [128, 112], [192, 160], [255, 200]],
+        },
+        saturation: 0.75,
+        fade: 0.35,
+        fadeColour: [120, 96, 70],
+        flash: 0,
+        lightLeak: 0,
+        grain: 14,
+        vignette: 0.25,
+        dateStamp: false,
+    },
+    'eighties-flash': {
+        label: '80s Flash',
+        decade: 1980,
+        curves: {
+            r: [[0, 0], [64, 52], [128, 132], [192, 210], [255, 255]],
+            g: [[0, 0], [64, 54], [128, 130], [192, 206], [255, 252]],
+            b: [[0, 12], [64, 66], [128, 136], [192, 208], [255, 250]],
+        },
+        saturation: 1.1,
+        fade: 0,
+        fadeColour: [0, 0, 0],
+        flash: 0.6,
+        lightLeak: 0,
+        grain: 12,
+        vignette: 0.15,
+        dateStamp: true,
+    },
+    'disposable': {
+        label: '90s Disposable',
+        decade: 1990,
+        curves: {
+            r: [[0, 10], [64, 70], [128, 140], [192, 204], [255, 245]],
+            g: [[0, 10], [64, 72], [128, 138], [192, 200], [255, 240]],
+            b: [[0, 16], [64, 66], [128, 122], [192, 182], [255, 225]],
+        },
+        saturation: 1.05,
+        fade: 0.1,
+        fadeColour: [60, 70, 50],
+        flash: 0.3,
+        lightLeak: 0.7,
+        grain: 22,
+        vignette: 0.4,
+        dateStamp: true,
+    },
+};
+
+export const FILM_PRESET_IDS = Object.keys(FILM_PRESETS) as FilmPresetId[];
+
+export const DEFAULT_FILM_STRENGTH = 0.8;
+
+// Rendered looks by photo, filter and year, so re-renders and exports don't redo the pixel work
+const CACHE_LIMIT = 24;
+const filteredCache = new Map<string, Promise<string>>();
+
+/**
+ * The preset closest in time to an era caption, e.g. "70s Fade" for "1970s disco".
+ * Kodachrome for captions without a year.
+ */
+export function getSuggestedFilmPreset(caption: string): FilmPresetId {
+    const year = getEraYear(caption);
+    if (year === null) return 'kodachrome';
+    return FILM_PRESET_IDS.reduce((best, id) =>
+        Math.abs(FILM_PRESETS[id].decade - year) < Math.abs(FILM_PRESETS[best].decade - year) ? id : best,
+    );
+}
+
+export function createFilmFilter(caption: string): FilmFilter {
+    const preset = getSuggestedFilmPreset(caption);
+    return { preset, strength: DEFAULT_FILM_STRENGTH, dateStamp: FILM_PRESETS[preset].dateStamp };
+}
+
+/**
+ * Expands curve points into a 256-entry lookup table by linear interpolation.
+ */
+function buildCurve(points: Curve): Uint8ClampedArray {
+    const table = new Uint8ClampedArray(256);
+    for (let segment = 0; segment < points.length - 1; segment++) {
+        const [x0, y0] = points[segment];
+        const [x1, y1] = points[segment + 1];
+        for (let x = x0; x <= x1; x++) {
+            table[x] = y0 + ((y1 - y0) * (x - x0)) / (x1 - x0);
+        }
+    }
+    return table;
+}
+
+/**
+ * A camera-style date for the stamp, e.g. "'87 6 14". The month and day come from `seed`,
+ * so a photo keeps the same date every time it is rendered.
+ */
+export function formatDateStamp(year: number, seed: number): string {
+    const random = createSeededRandom(seed);
+    const month = 1 + Math.floor(random() * 12);
+    const day = 1 + Math.floor(random() * 28);
+    return `'${String(year % 100).padStart(2, '0')} ${month} ${day}`;
+}
+
+function drawDateStamp(ctx: CanvasRenderingContext2D, text: string, width: number, height: number, opacity: number) {
+    const size = Math.round(Math.min(width, height) * 0.045);
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.font = `bold ${size}px "Courier New", monospace`;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'bottom';
+    ctx.fillStyle = '#ff9a2e';
+    ctx.shadowColor = 'rgba(255, 90, 0, 0.8)';
+    ctx.shadowBlur = size * 0.4;
+    ctx.fillText(text, width - size * 1.2, height - size);
+    ctx.restore();
+}
+
+async function renderFilmFilter(dataUrl: string, filter: FilmFilter, year: number, seed: number): Promise<string> {
+    const preset = FILM_PRESETS[filter.preset];
+    const img = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    const width = canvas.width = img.naturalWidth;
+    const height = canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    ctx.drawImage(img, 0, 0);
+
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+    const curves = [buildCurve(preset.curves.r), buildCurve(preset.curves.g), buildCurve(preset.curves.b)];
+    const random = createSeededRandom(seed);
+    const strength = Math.min(1, Math.max(0, filter.strength));
+    // The leak comes in from the left or right edge, a little above or below centre
+    const leakX = random() < 0.5 ? 0 : 1;
+    const leakY = 0.3 + random() * 0.4;
+    const centreX = width / 2;
+    const centreY = height / 2;
+    const maxDistance = Math.hypot(centreX, centreY);
+    const pixel = [0, 0, 0];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            // 0 at the centre, 1 in the corners
+            const distance = Math.hypot(x - centreX, y - centreY) / maxDistance;
+            const leak = preset.lightLeak * Math.max(0, 1 - Math.hypot(x / width - leakX, (y / height - leakY) * 0.6) * 2.2);
+            const flash = preset.flash * (0.35 * (1 - distance) ** 3 - 0.45 * distance * distance);
+            const vignette = 1 - preset.vignette * Math.max(0, (distance - 0.45) / 0.55) ** 2;
+            const grain = (random() - 0.5) * preset.grain;
+
+            for (let c = 0; c < 3; c++) pixel[c] = curves[c][data[i + c]];
+            const luma = 0.299 * pixel[0] + 0.587 * pixel[1] + 0.114 * pixel[2];
+            for (let c = 0; c < 3; c++) {
+                let value = luma + (pixel[c] - luma) * preset.saturation;
+                value += (preset.fadeColour[c] - value) * preset.fade * (1 - value / 255);
+                value *= 1 + flash;
+                value *= vignette;
+                // Screen the leak's warm orange over the frame
+                value = 255 - (255 - value) * (1 - leak * [1, 0.55, 0.15][c]);
+                value += grain;
+                data[i + c] += (value - data[i + c]) * strength;
+            }
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+
+    if (filter.dateStamp) {
+        drawDateStamp(ctx, formatDateStamp(year, seed), width, height, 0.4 + strength * 0.6);
+    }
+    return canvas.toDataURL('image/jpeg', 0.92);
+}
+
+/**
+ * Renders `dataUrl` with a film look, entirely on this device, as a JPEG data URL.
+ * `caption` dates the stamp; captions without a year get this year.
+ */
+export function applyFilmFilter(dataUrl: string, filter: FilmFilter, caption: string = ''): Promise<string> {
+    const year = getEraYear(caption) ?? new Date().getFullYear();
+    const seed = hashString(dataUrl);
+    const key = `${seed}:${dataUrl.length}:${filter.preset}:${filter.strength}:${filter.dateStamp}:${year}`;
+    const cached = filteredCache.get(key);
+    if (cached) return cached;
+
+    const rendered = renderFilmFilter(dataUrl, filter, year, seed);
+    filteredCache.set(key, rendered);
+    rendered.catch(() => filteredCache.delete(key));
+    if (filteredCache.size > CACHE_LIMIT) {
+        filteredCache.delete(filteredCache.keys().next().value!);
+    }
+    return rendered;
+}
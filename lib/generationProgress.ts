@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationProgress, GenerationStage } from '../types.ts';
+
+interface StageInfo {
+    label: string;
+    /** Share of the development this stage covers, as [start, end] in 0..1. */
+    span: [number, number];
+    /** How long the stage usually takes. Progress eases towards the span's end over this time. */
+    typicalMs: number;
+    /** Past this, the stage is slower than usual. */
+    slowMs: number;
+    /** Past this, the job has probably stopped making progress. */
+    stalledMs: number;
+}
+
+export const GENERATION_STAGES: Record<GenerationStage, StageInfo> = {
+    'queued': { label: 'Waiting for the darkroom', span: [0, 0.05], typicalMs: 10_000, slowMs: 60_000, stalledMs: 5 * 60_000 },
+    'uploading': { label: 'Sending your photo', span: [0.05, 0.2], typicalMs: 3_000, slowMs: 15_000, stalledMs: 60_000 },
+    'waiting': { label: 'Exposing', span: [0.2, 0.85], typicalMs: 20_000, slowMs: 60_000, stalledMs: 3 * 60_000 },
+    'retrying': { label: 'Busy darkroom, retrying', span: [0.2, 0.2], typicalMs: 10_000, slowMs: 60_000, stalledMs: 3 * 60_000 },
+    'decoding': { label: 'Fixing the print', span: [0.85, 1], typicalMs: 1_500, slowMs: 10_000, stalledMs: 30_000 },
+};
+
+/**
+ * Is the job moving along? 'slow' jobs are still within what the service can take,
+ * 'stalled' ones have sat in a stage long enough to be worth cancelling.
+ */
+export type ProgressHealth = 'ok' | 'slow' | 'stalled';
+
+/**
+ * How developed the print should look, 0..1. Moves quickly through a stage at first and slows
+ * the longer it runs, so it never reaches the next stage early.
+ */
+export function getDevelopmentFraction(progress: GenerationProgress | undefined, now: number = Date.now()): number {
+    if (!progress) return 0;
+    const { span: [start, end], typicalMs } = GENERATION_STAGES[progress.stage];
+    const elapsed = Math.max(0, now - progress.since);
+    return start + (end - start) * (1 - Math.exp(-elapsed / typicalMs));
+}
+
+export function getProgressHealth(progress: GenerationProgress | undefined, now: number = Date.now()): ProgressHealth {
+    if (!progress) return 'ok';
+    const { slowMs, stalledMs } = GENERATION_STAGES[progress.stage];
+    const elapsed = now - progress.since;
+    if (elapsed >= stalledMs) return 'stalled';
+    return elapsed >= slowMs ? 'slow' : 'ok';
+}
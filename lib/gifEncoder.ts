@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Colours are bucketed to 5 bits per channel before quantizing
+const CHANNEL_BITS = 5;
+const BUCKET_COUNT = 1 << (CHANNEL_BITS * 3);
+const PALETTE_SIZE = 256;
+const LZW_MIN_CODE_SIZE = 8;
+const MAX_LZW_CODE = 4096;
+
+interface ColourBox {
+    buckets: number[];
+    count: number;
+}
+
+const bucketChannel = (bucket: number, channel: number) => (bucket >> (CHANNEL_BITS * (2 - channel))) & 31;
+
+/**
+ * Median-cut quantization: repeatedly splits the box with the widest channel range
+ * until there are enough boxes, then uses each box's weighted average as a palette entry.
+ */
+function buildPalette(histogram: Uint32Array): { palette: Uint8Array; lookup: Int16Array } {
+    const used: number[] = [];
+    let total = 0;
+    for (let bucket = 0; bucket < BUCKET_COUNT; bucket++) {
+        if (histogram[bucket]) {
+            used.push(bucket);
+            total += histogram[bucket];
+        }
+    }
+
+    const boxes: ColourBox[] = [{ buckets: used, count: total }];
+    while (boxes.length < PALETTE_SIZE) {
+        let widest = -1;
+        let widestChannel = 0;
+        let widestRange = 0;
+        boxes.forEach((box, index) => {
+            if (box.buckets.length < 2) return;
+            for (let channel = 0; channel < 3; channel++) {
+                let min = 31;
+                let max = 0;
+                for (const bucket of box.buckets) {
+                    const value = bucketChannel(bucket, channel);
+                    if (value < min) min = value;
+                    if (value > max) max = value;
+                }
+                if (max - min > widestRange) {
+                    widestRange = max - min;
+                    widest = index;
+                    widestChannel = channel;
+                }
+            }
+        });
+        if (widest < 0) break;
+
+        const box = boxes[widest];
+        box.buckets.sort((a, b) => bucketChannel(a, widestChannel) - bucketChannel(b, widestChannel));
+        // Split at the pixel-weighted median, keeping at least one colour on each side
+        let running = 0;
+        let split = 1;
+        for (; split < box.buckets.length - 1; split++) {
+            running += histogram[box.buckets[split - 1]];
+            if (running >= box.count / 2) break;
+        }
+        const lower = box.buckets.slice(0, split);
+        const upper = box.buckets.slice(split);
+        const lowerCount = lower.reduce((sum, bucket) => sum + histogram[bucket], 0);
+        boxes.splice(widest, 1, { buckets: lower, count: lowerCount }, { buckets: upper, count: box.count - lowerCount });
+    }
+
+    const palette = new Uint8Array(PALETTE_SIZE * 3);
+    const lookup = new Int16Array(BUCKET_COUNT).fill(-1);
+    boxes.forEach((box, index) => {
+        const sums = [0, 0, 0];
+        for (const bucket of box.buckets) {
+            for (let channel = 0; channel < 3; channel++) {
+                sums[channel] += bucketChannel(bucket, channel) * histogram[bucket];
+            }
+            lookup[bucket] = index;
+        }
+        for (let channel = 0; channel < 3; channel++) {
+            // Scale the 5-bit average back up to 8 bits
+            palette[index * 3 + channel] = Math.round((sums[channel] / Math.max(1, box.count)) * 255 / 31);
+        }
+    });
+    return { palette, lookup };
+}
+
+/**
+ * Maps RGBA pixels to palette indices for one frame.
+ */
+function quantize(pixels: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } {
+    const pixelCount = pixels.length / 4;
+    const buckets = new Uint16Array(pixelCount);
+    const histogram = new Uint32Array(BUCKET_COUNT);
+    for (let i = 0; i < pixelCount; i++) {
+        const bucket = ((pixels[i * 4] >> 3) << 10) | ((pixels[i * 4 + 1] >> 3) << 5) | (pixels[i * 4 + 2] >> 3);
+        buckets[i] = bucket;
+        histogram[bucket]++;
+    }
+    const { palette, lookup } = buildPalette(histogram);
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        indices[i] = lookup[buckets[i]];
+    }
+    return { palette, indices };
+}
+
+/**
+ * Variable-width LZW as GIF expects it, packed least significant bit first.
+ */
+function lzwEncode(indices: Uint8Array): Uint8Array {
+    const clearCode = 1 << LZW_MIN_CODE_SIZE;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let codeSize = LZW_MIN_CODE_SIZE + 1;
+    let nextCode = endCode + 1;
+    let dictionary = new Map<number, number>();
+    let bits = 0;
+    let bitCount = 0;
+
+    const writeCode = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.push(bits & 0xff);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    writeCode(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = (prefix << 8) | indices[i];
+        const code = dictionary.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        writeCode(prefix);
+        if (nextCode < MAX_LZW_CODE) {
+            dictionary.set(key, nextCode++);
+            if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+        } else {
+            // The table is full: start over rather than keep using stale codes
+            writeCode(clearCode);
+            dictionary = new Map();
+            codeSize = LZW_MIN_CODE_SIZE + 1;
+            nextCode = endCode + 1;
+        }
+        prefix = indices[i];
+    }
+    writeCode(prefix);
+    writeCode(endCode);
+    if (bitCount > 0) output.push(bits & 0xff);
+    return Uint8Array.from(output);
+}
+
+/**
+ * A small GIF89a encoder. Each frame gets its own 256-colour palette,
+ * which keeps photos and crossfades looking right without a global compromise.
+ */
+export class GifEncoder {
+    private readonly chunks: Uint8Array[] = [];
+    private readonly width: number;
+    private readonly height: number;
+
+    /**
+     * @param loopCount How many times to repeat; 0 loops forever.
+     */
+    constructor(width: number, height: number, loopCount: number = 0) {
+        this.width = width;
+        this.height = height;
+        this.writeString('GIF89a');
+        // Logical screen descriptor, with no global colour table
+        this.writeBytes([...this.uint16(width), ...this.uint16(height), 0, 0, 0]);
+        // NETSCAPE2.0 application extension, which makes browsers loop
+        this.writeBytes([0x21, 0xff, 0x0b]);
+        this.writeString('NETSCAPE2.0');
+        this.writeBytes([0x03, 0x01, ...this.uint16(loopCount), 0x00]);
+    }
+
+    /**
+     * Adds a frame from canvas RGBA pixels, shown for `delayMs` (rounded to hundredths of a second).
+     */
+    addFrame(pixels: Uint8ClampedArray, delayMs: number): void {
+        if (pixels.length !== this.width * this.height * 4) {
+            throw new Error('Frame size does not match the GIF size.');
+        }
+        const { palette, indices } = quantize(pixels);
+        // Browsers treat delays under 2 hundredths as "as fast as possible", so clamp there
+        const delay = Math.max(2, Math.round(delayMs / 10));
+
+        // Graphic control extension: keep the previous frame, no transparency
+        this.writeBytes([0x21, 0xf9, 0x04, 0x04, ...this.uint16(delay), 0x00, 0x00]);
+        // Image descriptor with a 256-entry local colour table
+        this.writeBytes([0x2c, 0, 0, 0, 0, ...this.uint16(this.width), ...this.uint16(this.height), 0x87]);
+        this.chunks.push(palette);
+
+        this.writeBytes([LZW_MIN_CODE_SIZE]);
+        const data = lzwEncode(indices);
+        for (let offset = 0; offset < data.length; offset += 255) {
+            const block = data.subarray(offset, offset + 255);
+            this.writeBytes([block.length]);
+            this.chunks.push(block);
+        }
+        this.writeBytes([0x00]);
+    }
+
+    toBlob(): Blob {
+        return new Blob([...this.chunks, Uint8Array.of(0x3b)], { type: 'image/gif' });
+    }
+
+    private uint16(value: number): number[] {
+        return [value & 0xff, (value >> 8) & 0xff];
+    }
+
+    private writeBytes(bytes: number[]) {
+        this.chunks.push(Uint8Array.from(bytes));
+    }
+
+    private writeString(value: string) {
+        this.writeBytes(Array.from(value, char => char.charCodeAt(0)));
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { loadImage } from './utils.ts';
+
+/**
+ * A crop as fractions of the rotated and flipped image, so it survives resizing.
+ */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Everything the editor changes about a photo before it is sent for generation.
+ * Rotation is applied first, then the flips, both as seen by the user; the crop comes last.
+ */
+export interface ImageEdits {
+    /** Clockwise, in degrees: 0, 90, 180 or 270. */
+    rotation: number;
+    flipHorizontal: boolean;
+    flipVertical: boolean;
+    crop: CropRect;
+    /** Width over height the crop is locked to, or null for a free crop. */
+    aspect: number | null;
+    /** 1 leaves the image unchanged. */
+    brightness: number;
+    contrast: number;
+}
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+    rotation: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+    crop: FULL_CROP,
+    aspect: null,
+    brightness: 1,
+    contrast: 1,
+};
+
+/**
+ * Size of the image once rotated.
+ */
+export function getRotatedSize(width: number, height: number, rotation: number): { width: number; height: number } {
+    return rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+}
+
+/**
+ * The largest crop with `aspect` (width over height, in pixels) that fits a `frameWidth` x `frameHeight`
+ * image, scaled by `scale` and centred as near to (`centreX`, `centreY`) as the edges allow.
+ */
+export function fitCrop(
+    frameWidth: number,
+    frameHeight: number,
+    aspect: number | null,
+    centreX: number = 0.5,
+    centreY: number = 0.5,
+    scale: number = 1,
+): CropRect {
+    let width = 1;
+    let height = 1;
+    if (aspect) {
+        const frameAspect = frameWidth / frameHeight;
+        if (frameAspect > aspect) width = aspect / frameAspect;
+        else height = frameAspect / aspect;
+    }
+    width = Math.min(1, width * scale);
+    height = Math.min(1, height * scale);
+    const x = Math.min(1 - width, Math.max(0, centreX - width / 2));
+    const y = Math.min(1 - height, Math.max(0, centreY - height / 2));
+    return { x, y, width, height };
+}
+
+/**
+ * Applies brightness, then contrast, to every pixel the same way CSS filters do.
+ */
+function adjustTones(ctx: CanvasRenderingContext2D, width: number, height: number, brightness: number, contrast: number) {
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = (data[i + c] * brightness - 128) * contrast + 128;
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Renders `dataUrl` with `edits` applied, scaled down to fit `maxDimension`, as a JPEG data URL.
+ */
+export async function applyImageEdits(dataUrl: string, edits: ImageEdits, maxDimension: number = 1024): Promise<string> {
+    const img = await loadImage(dataUrl);
+    const frame = getRotatedSize(img.naturalWidth, img.naturalHeight, edits.rotation);
+    const cropWidth = edits.crop.width * frame.width;
+    const cropHeight = edits.crop.height * frame.height;
+    const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(cropWidth * scale));
+    canvas.height = Math.max(1, Math.round(cropHeight * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+
+    // Read bottom-up: rotate about the image's centre, flip, move into the frame, then crop and scale
+    ctx.scale(scale, scale);
+    ctx.translate(-edits.crop.x * frame.width, -edits.crop.y * frame.height);
+    ctx.translate(frame.width / 2, frame.height / 2);
+    ctx.scale(edits.flipHorizontal ? -1 : 1, edits.flipVertical ? -1 : 1);
+    ctx.rotate((edits.rotation * Math.PI) / 180);
+    ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+
+    if (edits.brightness !== 1 || edits.contrast !== 1) {
+        adjustTones(ctx, canvas.width, canvas.height, edits.brightness, edits.contrast);
+    }
+    return canvas.toDataURL('image/jpeg', 0.9);
+}
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type InvalidImageReason = 'file-too-large' | 'not-an-image' | 'heic-unsupported' | 'undecodable' | 'too-small' | 'too-large';
+
+/**
+ * Why a file can't be used as a source photo, with a message fit to show as is.
+ */
+export class InvalidImageError extends Error {
+    readonly reason: InvalidImageReason;
+
+    constructor(message: string, reason: InvalidImageReason, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'InvalidImageError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * A photo ready for the app: one format, a sensible size and a single frame.
+ */
+export interface NormalisedImage {
+    /** Always a JPEG data URL. */
+    dataUrl: string;
+    width: number;
+    height: number;
+    /** The file had several frames and only the first was kept. */
+    wasAnimated: boolean;
+    wasDownscaled: boolean;
+}
+
+const MAX_FILE_BYTES = 40 * 1024 * 1024;
+const MIN_DIMENSION = 256;
+// Past this, browsers start failing to allocate canvases at all
+const MAX_PIXELS = 100_000_000;
+const OUTPUT_MAX_DIMENSION = 2048;
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|bmp|svg|heic|heif|tiff?)$/i;
+
+function isHeic(file: File): boolean {
+    return /image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+}
+
+/**
+ * Walks a GIF's blocks and reports whether it has more than one image in it.
+ */
+function isAnimatedGif(bytes: Uint8Array): boolean {
+    let offset = 13;
+    if (bytes[10] & 0x80) offset += 3 * 2 ** ((bytes[10] & 0x07) + 1);
+    const skipSubBlocks = () => {
+        while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+        offset++;
+    };
+
+    let frames = 0;
+    while (offset < bytes.length) {
+        const block = bytes[offset];
+        if (block === 0x21) {
+            offset += 2;
+            skipSubBlocks();
+        } else if (block === 0x2c) {
+            if (++frames > 1) return true;
+            const packed = bytes[offset + 9];
+            offset += 10;
+            if (packed & 0x80) offset += 3 * 2 ** ((packed & 0x07) + 1);
+            // LZW minimum code size, then the image data
+            offset++;
+            skipSubBlocks();
+        } else {
+            break;
+        }
+    }
+    return false;
+}
+
+/**
+ * APNGs announce themselves with an acTL chunk before the first image data.
+ */
+function isAnimatedPng(bytes: Uint8Array): boolean {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        if (type === 'acTL') return true;
+        if (type === 'IDAT') return false;
+        offset += 12 + view.getUint32(offset);
+    }
+    return false;
+}
+
+function isAnimatedWebp(bytes: Uint8Array): boolean {
+    // Extended WebPs carry an animation flag in their VP8X header
+    return String.fromCharCode(...bytes.subarray(12, 16)) === 'VP8X' && (bytes[20] & 0x02) !== 0;
+}
+
+async function isAnimated(file: File): Promise<boolean> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const signature = String.fromCharCode(...bytes.subarray(0, 4));
+    if (signature === 'GIF8') return isAnimatedGif(bytes);
+    if (signature === '\x89PNG') return isAnimatedPng(bytes);
+    if (signature === 'RIFF') return isAnimatedWebp(bytes);
+    return false;
+}
+
+/**
+ * Decodes the first frame of a file, upright. SVGs and some older browsers need an <img> to decode.
+ */
+async function decodeFirstFrame(file: File): Promise<CanvasImageSource & { width: number; height: number }> {
+    try {
+        return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        const url = URL.createObjectURL(file);
+        try {
+            const img = new Image();
+            img.src = url;
+            await img.decode();
+            return img;
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+}
+
+/**
+ * Checks a file can be used as a source photo and converts it to a single-frame JPEG of
+ * at most 2048px a side. Rejects with an InvalidImageError saying what's wrong.
+ */
+export async function normaliseImageFile(file: File): Promise<NormalisedImage> {
+    if (!file.type.startsWith('image/') && !IMAGE_EXTENSIONS.test(file.name)) {
+        throw new InvalidImageError(`"${file.name}" isn't an image.`, 'not-an-image');
+    }
+    if (file.size > MAX_FILE_BYTES) {
+        throw new InvalidImageError(`This photo is ${Math.round(file.size / 1024 / 1024)}MB; the limit is ${MAX_FILE_BYTES / 1024 / 1024}MB.`, 'file-too-large');
+    }
+
+    let source: Awaited<ReturnType<typeof decodeFirstFrame>>;
+    try {
+        source = await decodeFirstFrame(file);
+    } catch (err) {
+        if (isHeic(file)) {
+            throw new InvalidImageError("This browser can't open HEIC photos. Set your iPhone camera to \"Most Compatible\", or share the photo as a JPEG.", 'heic-unsupported', { cause: err });
+        }
+        throw new InvalidImageError("This file couldn't be read as an image. It may be damaged or in an unsupported format.", 'undecodable', { cause: err });
+    }
+
+    const { width, height } = source;
+    if (!width || !height) {
+        throw new InvalidImageError("This image has no size, so it can't be used. SVGs need a width and height.", 'undecodable');
+    }
+    if (Math.min(width, height) < MIN_DIMENSION) {
+        throw new InvalidImageError(`This photo is ${width}×${height}; it needs to be at least ${MIN_DIMENSION}px on each side.`, 'too-small');
+    }
+    if (width * height > MAX_PIXELS) {
+        throw new InvalidImageError(`This photo is ${width}×${height}, which is too large to process. Try a smaller copy.`, 'too-large');
+    }
+
+    const scale = Math.min(1, OUTPUT_MAX_DIMENSION / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get 2D canvas context');
+    }
+    // JPEG has no transparency; without this, transparent areas turn black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    if (source instanceof ImageBitmap) source.close();
+
+    return {
+        dataUrl: canvas.toDataURL('image/jpeg', 0.92),
+        width: canvas.width,
+        height: canvas.height,
+        wasAnimated: await isAnimated(file),
+        wasDownscaled: scale < 1,
+    };
+}
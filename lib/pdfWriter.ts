@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { dataUrlToBytes } from './utils.ts';
+
+/** PDF points per inch. */
+export const POINTS_PER_INCH = 72;
+
+export const A4_PAGE = { width: 595.28, height: 841.89 };
+
+interface PdfPage {
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    width: number;
+    height: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Escapes a string for use inside a PDF literal string: `(...)`.
+ */
+function escapePdfString(value: string): string {
+    return value.replace(/[\\()]/g, match => `\\${match}`).replace(/[^\x20-\x7e]/g, '?');
+}
+
+function formatPdfDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Decodes a `data:image/jpeg;base64,...` URL into raw bytes.
+ */
+export function jpegDataUrlToBytes(dataUrl: string): Uint8Array {
+    if (!dataUrl.startsWith('data:image/jpeg;')) {
+        throw new Error('Expected a JPEG data URL.');
+    }
+    return dataUrlToBytes(dataUrl);
+}
+
+/**
+ * A minimal PDF 1.4 writer where every page is one full-bleed JPEG.
+ * JPEGs are embedded as-is with DCTDecode, so nothing needs re-encoding.
+ */
+export class PdfDocument {
+    private readonly pages: PdfPage[] = [];
+    private readonly title: string;
+
+    constructor(title: string = '') {
+        this.title = title;
+    }
+
+    get pageCount(): number {
+        return this.pages.length;
+    }
+
+    /**
+     * Adds a page showing a JPEG scaled to fill `pageSize` (in points).
+     */
+    addJpegPage(jpeg: Uint8Array, pixelWidth: number, pixelHeight: number, pageSize: { width: number; height: number } = A4_PAGE): void {
+        this.pages.push({ jpeg, pixelWidth, pixelHeight, width: pageSize.width, height: pageSize.height });
+    }
+
+    toBlob(): Blob {
+        const chunks: Uint8Array[] = [];
+        const offsets: number[] = [];
+        let length = 0;
+
+        const write = (data: string | Uint8Array) => {
+            const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+            chunks.push(bytes);
+            length += bytes.length;
+        };
+        const beginObject = (id: number) => {
+            offsets[id] = length;
+            write(`${id} 0 obj\n`);
+        };
+
+        // Object ids: 1 catalog, 2 page tree, 3 info, then three per page (page, content stream, image)
+        const pageObjectId = (index: number) => 4 + index * 3;
+        const objectCount = 3 + this.pages.length * 3;
+
+        // Header, with a binary comment so transfer tools treat the file as binary
+        write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+        beginObject(1);
+        write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+        beginObject(2);
+        const kids = this.pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ');
+        write(`<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>\nendobj\n`);
+
+        beginObject(3);
+        write(`<< /Title (${escapePdfString(this.title)}) /Producer (Past Forward) /CreationDate (${formatPdfDate(new Date())}) >>\nendobj\n`);
+
+        this.pages.forEach((page, index) => {
+            const pageId = pageObjectId(index);
+            const contentId = pageId + 1;
+            const imageId = pageId + 2;
+            const content = `q ${page.width} 0 0 ${page.height} 0 0 cm /Im0 Do Q`;
+
+            beginObject(pageId);
+            write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+            beginObject(contentId);
+            write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+            beginObject(imageId);
+            write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+            write(page.jpeg);
+            write('\nendstream\nendobj\n');
+        });
+
+        // Cross-reference table: every entry is exactly 20 bytes
+        const xrefOffset = length;
+        write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+        for (let id = 1; id <= objectCount; id++) {
+            write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+        }
+        write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+        return new Blob(chunks, { type: 'application/pdf' });
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Bumped whenever the wording of the shared templates changes, so results can be traced back to the template that made them.
+ */
+export const PROMPT_TEMPLATE_VERSION = 1;
+
+export interface PromptSlots {
+    subject: string;
+    era: string;
+    clothing: string;
+    hair: string;
+    filmStock: string;
+    lighting: string;
+    framing: string;
+}
+
+export type PromptSlotName = keyof PromptSlots;
+
+/** The slots an era can customise; subject and era come from the photo and caption. */
+export type EraStyle = Pick<PromptSlots, 'clothing' | 'hair' | 'filmStock' | 'lighting' | 'framing'>;
+
+export const ERA_STYLE_SLOTS: { name: keyof EraStyle; label: string }[] = [
+    { name: 'clothing', label: 'Clothing' },
+    { name: 'hair', label: 'Hair' },
+    { name: 'filmStock', label: 'Film stock' },
+    { name: 'lighting', label: 'Lighting' },
+    { name: 'framing', label: 'Framing' },
+];
+
+const PRIMARY_TEMPLATE = 'Reimagine {subject} in the style of the {era}. Dress them in {clothing}, with {hair}. Shot on {filmStock}, with {lighting}. Framing: {framing}. Keep their face and identity recognisable. Authentic, high quality photograph from that time.';
+
+const FALLBACK_TEMPLATE = 'Reimagine {subject} as if they were in the {era}. Focus on era-appropriate clothing and hairstyle. Ensure it looks like an authentic vintage photograph from that time.';
+
+export const DEFAULT_SUBJECT = 'the person in this photo';
+
+const GENERIC_STYLE: EraStyle = {
+    clothing: 'era-appropriate clothing',
+    hair: 'a period-accurate hairstyle',
+    filmStock: 'a camera and film typical of the era',
+    lighting: 'lighting typical of photographs from that time',
+    framing: 'a natural head-and-shoulders portrait',
+};
+
+const DECADE_STYLES: Record<string, Partial<EraStyle>> = {
+    '1950s': { clothing: 'a tailored suit or a full-skirted tea dress', hair: 'a pompadour or set pin curls', filmStock: 'black-and-white Kodak Tri-X', lighting: 'soft studio lighting' },
+    '1960s': { clothing: 'a slim mod suit or a shift dress', hair: 'a beehive or a mop-top cut', filmStock: 'Kodachrome slide film', lighting: 'bright, even daylight' },
+    '1970s': { clothing: 'flared trousers, wide collars and earthy patterns', hair: 'long feathered hair or a natural afro', filmStock: 'warm, faded Kodacolor print film', lighting: 'golden late-afternoon sun' },
+    '1980s': { clothing: 'bold shoulder pads, neon colours and denim', hair: 'big permed or teased hair', filmStock: 'saturated Fujicolor print film', lighting: 'on-camera flash' },
+    '1990s': { clothing: 'grunge flannel, oversized denim or a slip dress', hair: 'curtained bangs or a choppy bob', filmStock: 'a disposable point-and-shoot camera', lighting: 'harsh direct flash' },
+    '2000s': { clothing: 'low-rise jeans, trucker hats and layered tops', hair: 'frosted tips or sleek straightened hair', filmStock: 'an early consumer digital camera', lighting: 'flat digital-camera flash' },
+};
+
+/**
+ * Fills `{slot}` placeholders. Unknown placeholders are left untouched so typos stay visible in the preview.
+ */
+export function renderTemplate(template: string, slots: PromptSlots): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        Object.hasOwn(slots, name) ? slots[name as PromptSlotName].trim() : placeholder
+    );
+}
+
+/**
+ * The style slot defaults for an era caption. Captions mentioning a known decade ("1970s disco") start from its look.
+ */
+export function getDefaultEraStyle(caption: string): EraStyle {
+    const decade = caption.match(/\d{4}s/)?.[0];
+    return { ...GENERIC_STYLE, ...(decade ? DECADE_STYLES[decade] : undefined) };
+}
+
+export function getPromptSlots(caption: string, style: Partial<EraStyle> = {}, subject: string = DEFAULT_SUBJECT): PromptSlots {
+    const defaults = getDefaultEraStyle(caption);
+    // Blank user entries fall back to the defaults rather than leaving a hole in the sentence
+    const filled = Object.fromEntries(
+        Object.entries(style).filter(([, value]) => typeof value === 'string' && value.trim())
+    ) as Partial<EraStyle>;
+    return { subject, era: caption.trim(), ...defaults, ...filled };
+}
+
+export function buildPrompt(slots: PromptSlots, template: string = PRIMARY_TEMPLATE): string {
+    return renderTemplate(template, slots);
+}
+
+export function buildFallbackPrompt(slots: PromptSlots): string {
+    return renderTemplate(FALLBACK_TEMPLATE, slots);
+}
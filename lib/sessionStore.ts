@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Era } from './eraCatalogue.ts';
+import type { GeneratedImage } from '../types.ts';
+import type { Subject, SubjectMode } from './subjects.ts';
+import type { FilmFilter } from './filmFilters.ts';
+import type { DeskState } from './deskState.ts';
+import { normalizeStoredResult } from './variants.ts';
+
+/**
+ * Everything needed to reopen a time machine run: the source photo, the eras it was run against and every result.
+ */
+export interface StoredSession {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+    sourceImage: string;
+    eras: Era[];
+    /** Keyed by generation target id: the era id, or `eraId:subjectId` for people generated separately. */
+    results: Record<string, GeneratedImage>;
+    /** Prompts edited on individual cards, keyed like `results`. */
+    promptOverrides: Record<string, string>;
+    /** People picked out of a group photo. Missing from sessions saved before subject selection. */
+    subjects?: Subject[];
+    subjectMode?: SubjectMode;
+    /** Film look over the uploaded photo. */
+    sourceFilmFilter?: FilmFilter;
+    /** Where the user left the cards on the desk. */
+    desk?: DeskState;
+}
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+}
+
+const DB_NAME = 'past-forward';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const RETENTION_KEY = 'past-forward:retention';
+
+export const DEFAULT_RETENTION_LIMIT = 20;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                databasePromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return databasePromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(SESSION_STORE, mode);
+    return requestToPromise(action(transaction.objectStore(SESSION_STORE)));
+}
+
+export function createSessionId(): string {
+    return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+    await withStore('readwrite', store => store.put(session));
+}
+
+/**
+ * Upgrades sessions saved by older versions of the app.
+ */
+function normalizeSession(session: StoredSession): StoredSession {
+    const results = Object.fromEntries(
+        Object.entries(session.results).map(([id, result]) => [id, normalizeStoredResult(result)])
+    );
+    return { ...session, results, promptOverrides: session.promptOverrides ?? {} };
+}
+
+export async function getSession(id: string): Promise<StoredSession | undefined> {
+    const session = await withStore<StoredSession | undefined>('readonly', store => store.get(id));
+    return session && normalizeSession(session);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+    await withStore('readwrite', store => store.delete(id));
+}
+
+/**
+ * Lists saved sessions, most recently updated first.
+ */
+export async function listSessions(): Promise<StoredSession[]> {
+    const sessions = await withStore<StoredSession[]>('readonly', store => store.getAll());
+    return sessions.map(normalizeSession).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Deletes the oldest sessions beyond `limit`. Returns how many were removed.
+ */
+export async function pruneSessions(limit: number): Promise<number> {
+    const sessions = await listSessions();
+    const expired = sessions.slice(Math.max(0, limit));
+    await Promise.all(expired.map(session => deleteSession(session.id)));
+    return expired.length;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+}
+
+export function getRetentionLimit(): number {
+    const stored = Number(localStorage.getItem(RETENTION_KEY));
+    return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_RETENTION_LIMIT;
+}
+
+export function setRetentionLimit(limit: number): void {
+    localStorage.setItem(RETENTION_KEY, String(limit));
+}
+
+/**
+ * Results that were still in flight when a session was saved can't resume; show them as cancelled so they can be retried.
+ */
+export function settleInterruptedResults(results: Record<string, GeneratedImage>): Record<string, GeneratedImage> {
+    return Object.fromEntries(
+        Object.entries(results).map(([id, result]) => {
+            if (result.status !== 'pending') return [id, result];
+            return [id, { ...result, status: result.variants.length > 0 ? 'done' : 'cancelled', retryAt: undefined, progress: undefined }];
+        })
+    );
+}
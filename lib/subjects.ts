@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Era } from './eraCatalogue.ts';
+import { type CropRect, DEFAULT_IMAGE_EDITS, applyImageEdits } from './imageEditing.ts';
+import { DEFAULT_SUBJECT } from './promptBuilder.ts';
+
+/**
+ * A person picked out in a group photo.
+ */
+export interface Subject {
+    id: string;
+    /** Fractions of the photo, like a crop. */
+    box: CropRect;
+    /** How captions refer to them, e.g. "Mom". May be blank. */
+    label: string;
+}
+
+/**
+ * Whether the picked people share one photo per era, or each get their own.
+ */
+export type SubjectMode = 'together' | 'separate';
+
+/**
+ * One card's worth of work: an era, and who in the photo it is for.
+ */
+export interface GenerationTarget {
+    /** The era's id, or `eraId:subjectId` when people are generated separately. */
+    id: string;
+    era: Era;
+    caption: string;
+    /** Empty for the whole photo. */
+    subjects: Subject[];
+}
+
+// Room around the picked people, so the crop keeps some of the scene
+const CROP_MARGIN = 0.15;
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth'];
+
+export function createSubject(box: CropRect): Subject {
+    return {
+        id: `subject-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+        box,
+        label: '',
+    };
+}
+
+/**
+ * The subjects from left to right, the order people read a photo in.
+ */
+export function sortSubjects(subjects: Subject[]): Subject[] {
+    return [...subjects].sort((a, b) => (a.box.x + a.box.width / 2) - (b.box.x + b.box.width / 2));
+}
+
+/**
+ * A subject's label, or "Person N" by their place from the left among `all`.
+ */
+export function getSubjectName(subject: Subject, all: Subject[]): string {
+    return subject.label.trim() || `Person ${sortSubjects(all).indexOf(subject) + 1}`;
+}
+
+/**
+ * Names the subjects for a caption, e.g. "Mom & Dad" or "Ann, Person 2 & Cy". Empty when nobody is labelled.
+ */
+export function joinSubjectNames(subjects: Subject[]): string {
+    if (!subjects.some(subject => subject.label.trim())) return '';
+    const names = sortSubjects(subjects).map(subject => getSubjectName(subject, subjects));
+    if (names.length === 1) return names[0];
+    return `${names.slice(0, -1).join(', ')} & ${names[names.length - 1]}`;
+}
+
+function describePosition(index: number, count: number): string {
+    if (count === 1) return 'in the centre';
+    if (index === 0) return 'on the left';
+    if (index === count - 1) return 'on the right';
+    if (count === 3) return 'in the middle';
+    return `${ORDINALS[index] ?? `number ${index + 1}`} from the left`;
+}
+
+/**
+ * Fills the prompt's `{subject}` slot, naming each person by label and place so the model
+ * changes the right people, e.g. "Mom (the person on the left) and Dad (the person on the right) in this photo".
+ */
+export function describeSubjects(subjects: Subject[]): string {
+    if (subjects.length === 0) return DEFAULT_SUBJECT;
+    const sorted = sortSubjects(subjects);
+    const people = sorted.map((subject, index) => {
+        const position = describePosition(index, sorted.length);
+        const label = subject.label.trim();
+        return label ? `${label} (the person ${position})` : `the person ${position}`;
+    });
+    const list = people.length === 1 ? people[0] : `${people.slice(0, -1).join(', ')} and ${people[people.length - 1]}`;
+    return `${list} in this photo`;
+}
+
+/**
+ * Expands eras into the cards to generate. Without subjects that is one card per era, keyed by
+ * era id as always; in separate mode each subject gets a card per era.
+ */
+export function getGenerationTargets(eras: Era[], subjects: Subject[], mode: SubjectMode): GenerationTarget[] {
+    if (subjects.length === 0) {
+        return eras.map(era => ({ id: era.id, era, caption: era.caption, subjects: [] }));
+    }
+    if (mode === 'together' || subjects.length === 1) {
+        const names = joinSubjectNames(subjects);
+        return eras.map(era => ({ id: era.id, era, caption: names ? `${names}, ${era.caption}` : era.caption, subjects }));
+    }
+    const sorted = sortSubjects(subjects);
+    return eras.flatMap(era => sorted.map(subject => ({
+        id: `${era.id}:${subject.id}`,
+        era,
+        caption: `${getSubjectName(subject, subjects)}, ${era.caption}`,
+        subjects: [subject],
+    })));
+}
+
+/**
+ * Crops `image` around the subjects with a margin, so people who weren't picked are mostly left out.
+ */
+export async function cropToSubjects(image: string, subjects: Subject[]): Promise<string> {
+    if (subjects.length === 0) return image;
+    const left = Math.min(...subjects.map(s => s.box.x));
+    const top = Math.min(...subjects.map(s => s.box.y));
+    const right = Math.max(...subjects.map(s => s.box.x + s.box.width));
+    const bottom = Math.max(...subjects.map(s => s.box.y + s.box.height));
+    const marginX = (right - left) * CROP_MARGIN;
+    const marginY = (bottom - top) * CROP_MARGIN;
+    const x = Math.max(0, left - marginX);
+    const y = Math.max(0, top - marginY);
+    const crop = {
+        x,
+        y,
+        width: Math.min(1, right + marginX) - x,
+        height: Math.min(1, bottom + marginY) - y,
+    };
+    return applyImageEdits(image, { ...DEFAULT_IMAGE_EDITS, crop }, 1024);
+}
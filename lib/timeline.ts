@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * How results are laid out: scattered on the desk, or in time order along a timeline.
+ */
+export type ResultsLayout = 'desk' | 'timeline';
+
+const LAYOUT_KEY = 'past-forward:layout';
+
+/**
+ * The year an era caption refers to, for placing it in time: "1970s disco" is 1970,
+ * "Roaring 20s" is 1920 and "1885" is 1885. Null when the caption names no year.
+ */
+export function getEraYear(caption: string): number | null {
+    const year = caption.match(/\b(1[0-9]|20)\d{2}(?=s?\b)/)?.[0];
+    if (year) return Number(year);
+    // Two-digit decades read as the 1900s
+    const decade = caption.match(/\b(?:'|’)?(\d)0s\b/)?.[1];
+    return decade ? 1900 + Number(decade) * 10 : null;
+}
+
+/**
+ * Sorts items into time order by caption. Items without a year keep their order and go last.
+ */
+export function sortByEraYear<T>(items: T[], getCaption: (item: T) => string): T[] {
+    return items
+        .map((item, index) => ({ item, index, year: getEraYear(getCaption(item)) }))
+        .sort((a, b) => (a.year ?? Infinity) - (b.year ?? Infinity) || a.index - b.index)
+        .map(({ item }) => item);
+}
+
+export function loadResultsLayout(): ResultsLayout {
+    try {
+        return localStorage.getItem(LAYOUT_KEY) === 'timeline' ? 'timeline' : 'desk';
+    } catch {
+        return 'desk';
+    }
+}
+
+export function saveResultsLayout(layout: ResultsLayout): void {
+    try {
+        localStorage.setItem(LAYOUT_KEY, layout);
+    } catch (err) {
+        console.warn("Could not save layout choice:", err);
+    }
+}
@@ -50,3 +50,129 @@ export async function resizeImage(dataUrl: string, maxDimension: number = 1024):
     img.src = dataUrl;
   });
 }
+
+/**
+ * Lower-case, dash-separated form of `text` for file names, e.g. "Roaring 20s!" becomes "roaring-20s".
+ */
+export function slugify(text: string): string {
+  return text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Helper function to load an image and return it as an HTMLImageElement
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Setting crossOrigin is good practice for canvas operations, even with data URLs
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+    img.src = src;
+  });
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects early with the signal's reason if it is aborted.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * FNV-1a string hash, for seeding deterministic randomness from content.
+ */
+export function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG. Returns the same sequence for the same seed.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Saves a Blob through a temporary object URL.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * Picks a file extension from a data URL's MIME type, so a PNG isn't saved as `.jpg`.
+ */
+export function getDataUrlExtension(dataUrl: string): string {
+  const mimeType = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? '';
+  return EXTENSIONS[mimeType] ?? 'jpg';
+}
+
+/**
+ * Decodes a base64 data URL into its raw bytes.
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const match = dataUrl.match(/^data:[^;,]*;base64,(.*)$/);
+  if (!match) {
+    throw new Error('Expected a base64 data URL.');
+  }
+  const binary = atob(match[1]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Offers a data URL to the system share sheet as a file.
+ * Resolves false where the browser can't share files, so the caller can fall back to a download.
+ */
+export async function shareDataUrl(dataUrl: string, filename: string, title: string): Promise<boolean> {
+  const type = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'image/jpeg';
+  const file = new File([dataUrlToBytes(dataUrl)], filename, { type });
+  if (!navigator.canShare?.({ files: [file] })) return false;
+  try {
+    await navigator.share({ files: [file], title });
+  } catch (err) {
+    // Closing the share sheet is not a failure
+    if ((err as Error).name !== 'AbortError') throw err;
+  }
+  return true;
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GeneratedImage, GenerationErrorKind, GenerationStage, ImageVariant } from '../types.ts';
+import type { FilmFilter } from './filmFilters.ts';
+
+export function createPendingImage(prompt?: string): GeneratedImage {
+    return { status: 'pending', variants: [], selectedIndex: 0, prompt, progress: { stage: 'queued', since: Date.now() } };
+}
+
+export function getSelectedVariant(image: GeneratedImage | undefined): ImageVariant | undefined {
+    if (!image || image.variants.length === 0) return undefined;
+    return image.variants[Math.min(image.selectedIndex, image.variants.length - 1)];
+}
+
+/**
+ * Marks an era as generating again while keeping its earlier variants.
+ */
+export function withPending(image: GeneratedImage | undefined, prompt?: string): GeneratedImage {
+    return {
+        ...(image ?? createPendingImage()),
+        status: 'pending',
+        error: undefined,
+        errorKind: undefined,
+        retryAt: undefined,
+        progress: { stage: 'queued', since: Date.now() },
+        prompt,
+    };
+}
+
+/**
+ * Appends a fresh result and selects it; the user can flip back and pick an earlier one.
+ */
+export function withVariant(image: GeneratedImage | undefined, variant: ImageVariant): GeneratedImage {
+    const variants = [...(image?.variants ?? []), variant];
+    return {
+        ...(image ?? createPendingImage()),
+        status: 'done',
+        error: undefined,
+        errorKind: undefined,
+        retryAt: undefined,
+        progress: undefined,
+        variants,
+        selectedIndex: variants.length - 1,
+        createdAt: variant.createdAt,
+    };
+}
+
+/**
+ * Records a failed or cancelled attempt. Eras that already have variants stay viewable,
+ * with the error attached so the card can still mention it.
+ */
+export function withFailure(
+    image: GeneratedImage | undefined,
+    status: 'error' | 'cancelled',
+    error?: { message: string; kind: GenerationErrorKind; retryAfterMs?: number },
+): GeneratedImage {
+    const base = image ?? createPendingImage();
+    const hasVariants = base.variants.length > 0;
+    return {
+        ...base,
+        status: hasVariants ? 'done' : status,
+        error: status === 'error' ? error?.message : undefined,
+        errorKind: status === 'error' ? error?.kind : undefined,
+        retryAt: status === 'error' && error?.retryAfterMs !== undefined ? Date.now() + error.retryAfterMs : undefined,
+        progress: undefined,
+        createdAt: Date.now(),
+    };
+}
+
+/**
+ * Notes that a pending job is waiting to retry, so its card can count down.
+ */
+export function withRetry(image: GeneratedImage | undefined, retryAt: number): GeneratedImage {
+    const base = image ?? createPendingImage();
+    return base.status === 'pending' ? { ...base, retryAt, progress: { stage: 'retrying', since: Date.now() } } : base;
+}
+
+/**
+ * Moves a pending job on to `stage`. Backoffs go through withRetry, which also records when the wait ends.
+ */
+export function withProgress(image: GeneratedImage | undefined, stage: Exclude<GenerationStage, 'retrying'>): GeneratedImage {
+    const base = image ?? createPendingImage();
+    if (base.status !== 'pending' || base.progress?.stage === stage) return base;
+    return { ...base, retryAt: undefined, progress: { stage, since: Date.now() } };
+}
+
+export function withSelectedVariant(image: GeneratedImage, index: number): GeneratedImage {
+    if (index < 0 || index >= image.variants.length) return image;
+    return { ...image, selectedIndex: index };
+}
+
+export function withFilmFilter(image: GeneratedImage, filter: FilmFilter | undefined): GeneratedImage {
+    return { ...image, filmFilter: filter };
+}
+
+/**
+ * Upgrades results saved before variants existed, when each era held a single `url`.
+ */
+export function normalizeStoredResult(result: GeneratedImage & { url?: string; promptVersion?: number }): GeneratedImage {
+    if (Array.isArray(result.variants)) return result;
+    const { url, promptVersion, ...rest } = result;
+    return {
+        ...rest,
+        variants: url ? [{ url, prompt: result.prompt, promptVersion, createdAt: result.createdAt ?? Date.now() }] : [],
+        selectedIndex: 0,
+    };
+}
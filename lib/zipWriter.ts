@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+interface ZipEntry {
+    name: Uint8Array;
+    data: Uint8Array;
+    crc: number;
+    offset: number;
+}
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS date and time, which is what ZIP headers store.
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/**
+ * A minimal ZIP writer. Files are stored uncompressed: the archive is mostly
+ * JPEG and PNG data that wouldn't shrink anyway, and storing keeps this dependency-free.
+ */
+export class ZipWriter {
+    private readonly entries: ZipEntry[] = [];
+    private readonly chunks: Uint8Array[] = [];
+    private length = 0;
+    private readonly modified = toDosDateTime(new Date());
+
+    get fileCount(): number {
+        return this.entries.length;
+    }
+
+    /**
+     * Adds a file. Strings are written as UTF-8. Use `/` in `path` for folders.
+     */
+    addFile(path: string, contents: Uint8Array | string): void {
+        const name = encoder.encode(path);
+        const data = typeof contents === 'string' ? encoder.encode(contents) : contents;
+        const entry: ZipEntry = { name, data, crc: crc32(data), offset: this.length };
+        this.entries.push(entry);
+
+        const header = new DataView(new ArrayBuffer(30));
+        header.setUint32(0, 0x04034b50, true); // Local file header signature
+        header.setUint16(4, 20, true); // Version needed to extract
+        header.setUint16(6, 0x0800, true); // UTF-8 file names
+        header.setUint16(8, 0, true); // Stored
+        header.setUint16(10, this.modified.time, true);
+        header.setUint16(12, this.modified.date, true);
+        header.setUint32(14, entry.crc, true);
+        header.setUint32(18, data.length, true);
+        header.setUint32(22, data.length, true);
+        header.setUint16(26, name.length, true);
+        header.setUint16(28, 0, true);
+        this.write(new Uint8Array(header.buffer));
+        this.write(name);
+        this.write(data);
+    }
+
+    toBlob(): Blob {
+        const centralStart = this.length;
+        const central: Uint8Array[] = [];
+        let centralLength = 0;
+        for (const entry of this.entries) {
+            const header = new DataView(new ArrayBuffer(46));
+            header.setUint32(0, 0x02014b50, true); // Central directory header signature
+            header.setUint16(4, 20, true); // Version made by
+            header.setUint16(6, 20, true); // Version needed to extract
+            header.setUint16(8, 0x0800, true);
+            header.setUint16(10, 0, true);
+            header.setUint16(12, this.modified.time, true);
+            header.setUint16(14, this.modified.date, true);
+            header.setUint32(16, entry.crc, true);
+            header.setUint32(20, entry.data.length, true);
+            header.setUint32(24, entry.data.length, true);
+            header.setUint16(28, entry.name.length, true);
+            // Extra field, comment, disk number and attributes are all zero
+            header.setUint32(42, entry.offset, true);
+            central.push(new Uint8Array(header.buffer), entry.name);
+            centralLength += 46 + entry.name.length;
+        }
+
+        const end = new DataView(new ArrayBuffer(22));
+        end.setUint32(0, 0x06054b50, true); // End of central directory signature
+        end.setUint16(8, this.entries.length, true);
+        end.setUint16(10, this.entries.length, true);
+        end.setUint32(12, centralLength, true);
+        end.setUint32(16, centralStart, true);
+
+        return new Blob([...this.chunks, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+    }
+
+    private write(bytes: Uint8Array) {
+        this.chunks.push(bytes);
+        this.length += bytes.length;
+    }
+}
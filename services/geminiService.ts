@@ -1,21 +1,13 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { ImageGenerationRequest, ImageProvider } from './imageProvider.ts';
+import { AuthError, SafetyBlockedError, TextResponseError } from './generationErrors.ts';
+import { RetryPolicy, TokenBucket } from './retryPolicy.ts';
 
-/**
- * Creates a fallback prompt to use when the primary one is blocked.
- */
-function getFallbackPrompt(decade: string): string {
-    return `Reimagine the person in this photo as if they were in the ${decade}. Focus on era-appropriate clothing and hairstyle. Ensure it looks like an authentic vintage photograph from that time.`;
-}
-
-function extractDecade(prompt: string): string | null {
-    const match = prompt.match(/(\d{4}s)/);
-    return match ? match[1] : null;
-}
+const GEMINI_MODEL = 'gemini-3-pro-image-preview';
 
 /**
  * Extracts the image data from the Gemini response candidates.
@@ -23,7 +15,7 @@ function extractDecade(prompt: string): string | null {
 function processGeminiResponse(response: GenerateContentResponse): string {
     const candidates = response.candidates;
     if (!candidates || candidates.length === 0) {
-        throw new Error("The AI returned an empty response. This usually happens due to safety filters.");
+        throw new SafetyBlockedError("The AI returned an empty response. This usually happens due to safety filters.");
     }
 
     // Guidelines: iterate through all parts to find the image part; do not assume the first part is an image part.
@@ -37,89 +29,73 @@ function processGeminiResponse(response: GenerateContentResponse): string {
     // Access the text property directly (not as a method).
     const textResponse = response.text || "No text returned";
     console.error("API did not return an image. Response content:", textResponse);
-    throw new Error(textResponse.includes("safety") ? "Safety filter blocked this image." : "AI returned text instead of an image.");
+    throw textResponse.includes("safety") ? new SafetyBlockedError() : new TextResponseError();
+}
+
+// Shared by every decade job, so a burst of parallel requests is paced together.
+// Roughly a request every two seconds, with room for a first burst of four.
+const geminiRetryPolicy = new RetryPolicy({ bucket: new TokenBucket(4, 0.5) });
+
+// Assumed upload speed for a typical home connection, in bytes per second
+const UPLOAD_BYTES_PER_SECOND = 250_000;
+
+/**
+ * Roughly how long sending a base64 payload of this length takes.
+ */
+function estimateUploadMs(base64Length: number): number {
+    return Math.max(500, ((base64Length * 3) / 4 / UPLOAD_BYTES_PER_SECOND) * 1000);
 }
 
 /**
  * A wrapper for the Gemini API call with retry logic and fresh API client initialization.
  */
-async function callGeminiWithRetry(imagePart: any, textPart: any): Promise<GenerateContentResponse> {
-    const maxRetries = 2;
-    const initialDelay = 1500;
-    
+async function callGeminiWithRetry(
+    imagePart: any,
+    textPart: any,
+    { signal, onRetry, onProgress }: Pick<ImageGenerationRequest, 'signal' | 'onRetry' | 'onProgress'>,
+): Promise<GenerateContentResponse> {
     // Always use process.env.API_KEY directly as specified in the guidelines.
     const apiKey = process.env.API_KEY;
     
     if (!apiKey) {
-        throw new Error("API_KEY is not defined. Please ensure an API key is selected via the activation dialog.");
+        throw new AuthError("API_KEY is not defined. Please ensure an API key is selected via the activation dialog.");
     }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-            // Create a new GoogleGenAI instance right before making an API call to ensure it uses the most up-to-date key.
-            const ai = new GoogleGenAI({ apiKey });
-            
-            // Use ai.models.generateContent to query GenAI with both the model name and prompt.
-            return await ai.models.generateContent({
-                model: 'gemini-3-pro-image-preview', // Requires API key selection in UI
-                contents: { parts: [imagePart, textPart] },
-                config: {
-                    imageConfig: {
-                        aspectRatio: "1:1",
-                        imageSize: "1K"
-                    }
-                }
-            });
-        } catch (error) {
-            console.error(`Error on attempt ${attempt}:`, error);
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            
-            // Critical errors that should prompt a key re-selection or immediate stop.
-            if (errorMessage.includes('429') || errorMessage.includes('QUOTA') || errorMessage.includes('BILLING') || errorMessage.includes('Requested entity was not found')) {
-                throw new Error(errorMessage);
-            }
+    return geminiRetryPolicy.run(() => {
+        // Create a new GoogleGenAI instance right before making an API call to ensure it uses the most up-to-date key.
+        const ai = new GoogleGenAI({ apiKey });
 
-            const isRetriable = errorMessage.includes('500') || errorMessage.includes('INTERNAL');
-            if (isRetriable && attempt < maxRetries) {
-                await new Promise(resolve => setTimeout(resolve, initialDelay * attempt));
-                continue;
+        // The SDK doesn't report upload progress, so count the photo as sent after a conservative estimate
+        onProgress?.('uploading');
+        const uploadTimer = setTimeout(() => onProgress?.('waiting'), estimateUploadMs(imagePart.inlineData.data.length));
+
+        // Use ai.models.generateContent to query GenAI with both the model name and prompt.
+        return ai.models.generateContent({
+            model: GEMINI_MODEL, // Requires API key selection in UI
+            contents: { parts: [imagePart, textPart] },
+            config: {
+                abortSignal: signal,
+                imageConfig: {
+                    aspectRatio: "1:1",
+                    imageSize: "1K"
+                }
             }
-            throw error;
-        }
-    }
-    throw new Error("Maximum retries reached for Gemini API.");
+        }).finally(() => clearTimeout(uploadTimer));
+    }, { signal, onRetry });
 }
 
 /**
- * Generates a decade-styled image using a provided image and prompt.
+ * Image provider backed by the Gemini image preview model. Requires a paid API key.
  */
-export async function generateDecadeImage(imageDataUrl: string, prompt: string): Promise<string> {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-    if (!match) {
-        throw new Error("Invalid image format. Try uploading a standard photo.");
-    }
-    const [, mimeType, base64Data] = match;
-
-    const imagePart = {
-        inlineData: { mimeType, data: base64Data },
-    };
-
-    try {
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    label: 'Gemini 3 Pro Image Preview',
+    model: GEMINI_MODEL,
+    requiresApiKey: true,
+    async generateImage({ image, prompt, signal, onRetry, onProgress }: ImageGenerationRequest): Promise<string> {
+        const imagePart = { inlineData: image };
         const textPart = { text: prompt };
-        const response = await callGeminiWithRetry(imagePart, textPart);
+        const response = await callGeminiWithRetry(imagePart, textPart, { signal, onRetry, onProgress });
         return processGeminiResponse(response);
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        
-        // Handle blocked content by attempting a fallback with a simpler, less likely to be blocked prompt.
-        if (errorMessage.toLowerCase().includes("safety") || errorMessage.toLowerCase().includes("text response")) {
-            const decade = extractDecade(prompt);
-            if (decade) {
-                const fallbackTextPart = { text: getFallbackPrompt(decade) };
-                const fallbackResponse = await callGeminiWithRetry(imagePart, fallbackTextPart);
-                return processGeminiResponse(fallbackResponse);
-            }
-        }
-        throw error;
-    }
-}
+    },
+};
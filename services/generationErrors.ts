@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationErrorKind } from '../types.ts';
+
+/**
+ * Base class for every failure surfaced by generation. `kind` survives being saved
+ * to history, so the UI can offer the right fix without re-reading the message.
+ */
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    /** How long the server asked us to wait before trying again, when it said. */
+    retryAfterMs?: number;
+
+    constructor(message: string, kind: GenerationErrorKind = 'unknown', options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'GenerationError';
+        this.kind = kind;
+    }
+}
+
+/** The API key is missing, invalid, or its project can't use the model. */
+export class AuthError extends GenerationError {
+    constructor(message: string = 'The API key was rejected. Select a different key.', options?: { cause?: unknown }) {
+        super(message, 'auth', options);
+        this.name = 'AuthError';
+    }
+}
+
+/** Rate limited or out of quota; trying again later may work. */
+export class QuotaError extends GenerationError {
+    /** A short-term limit that clears on its own, as opposed to a used-up daily or project quota. */
+    isRateLimit = true;
+
+    constructor(message: string = 'API quota exceeded. Wait a minute and try again.', options?: { cause?: unknown }) {
+        super(message, 'quota', options);
+        this.name = 'QuotaError';
+    }
+}
+
+/** The model refused the prompt or photo. */
+export class SafetyBlockedError extends GenerationError {
+    constructor(message: string = 'Safety filter blocked this image.', options?: { cause?: unknown }) {
+        super(message, 'safety', options);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+/** The model answered in words rather than with an image. */
+export class TextResponseError extends GenerationError {
+    constructor(message: string = 'AI returned text instead of an image.', options?: { cause?: unknown }) {
+        super(message, 'text-response', options);
+        this.name = 'TextResponseError';
+    }
+}
+
+/** The request never got a proper answer: offline, timed out, or a server error. */
+export class NetworkError extends GenerationError {
+    constructor(message: string = 'Could not reach the image service.', options?: { cause?: unknown }) {
+        super(message, 'network', options);
+        this.name = 'NetworkError';
+    }
+}
+
+/** The source photo or request can't be used as sent. */
+export class InvalidInputError extends GenerationError {
+    constructor(message: string = 'Invalid image format. Try uploading a standard photo.', options?: { cause?: unknown }) {
+        super(message, 'invalid-input', options);
+        this.name = 'InvalidInputError';
+    }
+}
+
+/**
+ * The job was cancelled. Named `AbortError` to match what fetch and AbortSignal throw.
+ */
+export class CancelledError extends GenerationError {
+    constructor(message: string = 'Generation was cancelled.', options?: { cause?: unknown }) {
+        super(message, 'cancelled', options);
+        this.name = 'AbortError';
+    }
+}
+
+/**
+ * Returns true when an error came from an aborted job rather than a real failure.
+ */
+export function isCancellation(error: unknown): boolean {
+    return error instanceof CancelledError || (error instanceof Error && error.name === 'AbortError');
+}
+
+const AUTH_PATTERN = /api[ _]?key|permission|unauthenticated|billing|requested entity was not found/i;
+const QUOTA_PATTERN = /quota|rate[ -]?limit|resource_exhausted|too many requests/i;
+// Signs a quota error is a per-minute limit rather than a used-up daily or billing quota
+const RATE_LIMIT_PATTERN = /per ?minute|rate[ -]?limit|too many requests/i;
+const HARD_QUOTA_PATTERN = /per ?day|daily|billing|limit: 0\b/i;
+const NETWORK_PATTERN = /failed to fetch|network|timed? ?out|unavailable|internal|econn/i;
+
+/**
+ * Reads a server-provided retry delay from an error message, e.g. a google.rpc.RetryInfo
+ * `"retryDelay": "17s"`, a `Retry-After: 30` header echo, or "Please retry in 17.5s".
+ */
+export function parseRetryAfterMs(message: string): number | undefined {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/i)
+        ?? message.match(/retry-after:?\s*(\d+(?:\.\d+)?)/i)
+        ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+function getStatus(error: unknown): number | undefined {
+    const status = (error as { status?: unknown })?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Classifies anything thrown during generation: SDK errors by HTTP status where there is one,
+ * otherwise by message. Already-typed errors pass through untouched.
+ */
+export function toGenerationError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) return error;
+    if (isCancellation(error)) return new CancelledError(undefined, { cause: error });
+
+    const message = error instanceof Error ? error.message : String(error);
+    const options = { cause: error };
+    const status = getStatus(error);
+
+    // Quota first: rate-limit messages often mention billing, which would otherwise read as a key problem
+    if (status === 429 || QUOTA_PATTERN.test(message)) {
+        const retryAfterMs = parseRetryAfterMs(message);
+        const isRateLimit = retryAfterMs !== undefined || (RATE_LIMIT_PATTERN.test(message) && !HARD_QUOTA_PATTERN.test(message));
+        const quotaError = new QuotaError(
+            isRateLimit ? undefined : 'API quota used up. Check your plan and billing, or try again once the quota resets.',
+            options,
+        );
+        quotaError.retryAfterMs = retryAfterMs;
+        quotaError.isRateLimit = isRateLimit;
+        return quotaError;
+    }
+    if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return new AuthError(undefined, options);
+    if ((status !== undefined && status >= 500) || error instanceof TypeError || NETWORK_PATTERN.test(message)) {
+        return new NetworkError(undefined, options);
+    }
+    if (status === 400) return new InvalidInputError(message, options);
+    if (/safety|blocked/i.test(message)) return new SafetyBlockedError(undefined, options);
+    return new GenerationError(message || 'Error occurred during generation.', 'unknown', options);
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CancelledError } from './generationErrors.ts';
+
+export type GenerationTask<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueuedJob {
+    id: string;
+    controller: AbortController;
+    start: () => void;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Runs generation jobs with a bounded number in flight at once.
+ * Every job gets its own AbortController, keyed by id, so it can be cancelled while queued or running.
+ */
+export class GenerationQueue {
+    private readonly concurrency: number;
+    private readonly waiting: QueuedJob[] = [];
+    private readonly controllers = new Map<string, AbortController>();
+    private running = 0;
+
+    constructor(concurrency: number = DEFAULT_CONCURRENCY) {
+        this.concurrency = Math.max(1, Math.floor(concurrency));
+    }
+
+    /**
+     * Schedules a job. Enqueuing an id that is already queued or running cancels the earlier job first.
+     * The returned promise rejects with a CancelledError as soon as the job is cancelled.
+     */
+    enqueue<T>(id: string, task: GenerationTask<T>): Promise<T> {
+        this.cancel(id);
+
+        const controller = new AbortController();
+        this.controllers.set(id, controller);
+
+        return new Promise<T>((resolve, reject) => {
+            const job: QueuedJob = {
+                id,
+                controller,
+                start: () => {
+                    this.running++;
+                    task(controller.signal)
+                        .then(resolve, reject)
+                        .finally(() => {
+                            this.running--;
+                            this.release(id, controller);
+                            this.drain();
+                        });
+                },
+            };
+
+            controller.signal.addEventListener('abort', () => {
+                const index = this.waiting.indexOf(job);
+                if (index !== -1) {
+                    this.waiting.splice(index, 1);
+                    this.release(id, controller);
+                }
+                // Settle immediately; a running task may still take a moment to notice the signal.
+                reject(new CancelledError());
+            }, { once: true });
+
+            this.waiting.push(job);
+            this.drain();
+        });
+    }
+
+    cancel(id: string): void {
+        this.controllers.get(id)?.abort();
+    }
+
+    cancelAll(): void {
+        [...this.controllers.values()].forEach(controller => controller.abort());
+    }
+
+    isActive(id: string): boolean {
+        return this.controllers.has(id);
+    }
+
+    private release(id: string, controller: AbortController): void {
+        if (this.controllers.get(id) === controller) {
+            this.controllers.delete(id);
+        }
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.waiting.length > 0) {
+            const job = this.waiting.shift()!;
+            if (!job.controller.signal.aborted) {
+                job.start();
+            }
+        }
+    }
+}
+
+/**
+ * The app-wide queue, sized by GENERATION_CONCURRENCY (see vite.config.ts).
+ */
+export const generationQueue = new GenerationQueue(Number(process.env.GENERATION_CONCURRENCY) || DEFAULT_CONCURRENCY);
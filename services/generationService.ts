@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationStage, ImageVariant } from '../types.ts';
+import { PROMPT_TEMPLATE_VERSION } from '../lib/promptBuilder.ts';
+import { getImageProvider } from './imageProvider.ts';
+import type { RetryEvent } from './retryPolicy.ts';
+import { type ConsistencySettings, scoreConsistency } from '../lib/faceSimilarity.ts';
+import { InvalidInputError, SafetyBlockedError, TextResponseError, toGenerationError } from './generationErrors.ts';
+
+export interface GenerateOptions {
+    /** Cancels the request, including any fallback attempt. */
+    signal?: AbortSignal;
+    /** Caption of the era being generated, passed through to the provider. */
+    era?: string;
+    /** Simpler prompt to try once if the primary one is blocked. */
+    fallbackPrompt?: string;
+    /** Called whenever the provider backs off before a retry. */
+    onRetry?: (event: RetryEvent) => void;
+    /** Called as the job moves through uploading, waiting on the model and decoding. Backoffs go to `onRetry`. */
+    onProgress?: (stage: GenerationStage) => void;
+}
+
+/**
+ * Generates an era-styled image using a provided image and prompt, through whichever provider is configured.
+ * Always rejects with a GenerationError, so callers can switch on its `kind`.
+ */
+export async function generateDecadeImage(imageDataUrl: string, prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const { signal, era, fallbackPrompt, onRetry, onProgress } = options;
+    const match = imageDataUrl.match(/^data:(image\/[\w.+-]+);base64,(.*)$/);
+    if (!match) {
+        throw new InvalidInputError();
+    }
+    const [, mimeType, base64Data] = match;
+
+    const provider = getImageProvider();
+    const image = { mimeType, data: base64Data };
+
+    try {
+        return await provider.generateImage({ image, prompt, era, signal, onRetry, onProgress });
+    } catch (error) {
+        const generationError = toGenerationError(error);
+        if (signal?.aborted) throw generationError;
+
+        // Handle blocked content by attempting a fallback with a simpler, less likely to be blocked prompt.
+        const isBlocked = generationError instanceof SafetyBlockedError || generationError instanceof TextResponseError;
+        if (isBlocked && fallbackPrompt) {
+            try {
+                return await provider.generateImage({ image, prompt: fallbackPrompt, era, signal, onRetry, onProgress });
+            } catch (fallbackError) {
+                throw toGenerationError(fallbackError);
+            }
+        }
+        throw generationError;
+    }
+}
+
+export interface ScoredImage {
+    url: string;
+    /** Face consistency with the source photo, 0..1. Missing if scoring failed. */
+    consistency?: number;
+}
+
+async function scoreSafely(sourceUrl: string, resultUrl: string): Promise<number | undefined> {
+    try {
+        return await scoreConsistency(sourceUrl, resultUrl);
+    } catch (err) {
+        console.warn("Could not score face consistency:", err);
+        return undefined;
+    }
+}
+
+/**
+ * Generates an image and scores how well it keeps the person's likeness. With auto re-roll on,
+ * weak results are generated again up to `maxAttempts` more times and the best one is kept.
+ */
+export async function generateConsistentImage(
+    imageDataUrl: string,
+    prompt: string,
+    consistency: ConsistencySettings,
+    options: GenerateOptions = {},
+): Promise<ScoredImage> {
+    const attempts = consistency.autoReroll ? 1 + Math.max(0, consistency.maxAttempts) : 1;
+    let best: ScoredImage | null = null;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        let url: string;
+        try {
+            url = await generateDecadeImage(imageDataUrl, prompt, options);
+        } catch (error) {
+            // A failed re-roll shouldn't throw away the result we already have
+            if (!best || options.signal?.aborted) throw error;
+            break;
+        }
+        options.onProgress?.('decoding');
+        const score = await scoreSafely(imageDataUrl, url);
+        if (!best || (score ?? 0) > (best.consistency ?? 0)) {
+            best = { url, consistency: score };
+        }
+        if (score === undefined || score >= consistency.threshold) break;
+    }
+    return best!;
+}
+
+/**
+ * Wraps a finished result with what produced it, for the manifest in exported bundles.
+ */
+export function createVariant(result: ScoredImage, prompt: string): ImageVariant {
+    const provider = getImageProvider();
+    return {
+        url: result.url,
+        prompt,
+        consistency: result.consistency,
+        promptVersion: PROMPT_TEMPLATE_VERSION,
+        provider: provider.id,
+        model: provider.model,
+        createdAt: Date.now(),
+    };
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { geminiProvider } from './geminiService.ts';
+import { mockProvider } from './mockProvider.ts';
+import type { RetryEvent } from './retryPolicy.ts';
+import type { GenerationStage } from '../types.ts';
+
+/**
+ * The source photo handed to a provider, already split out of its data URL.
+ */
+export interface ImageInput {
+    mimeType: string;
+    data: string;
+}
+
+export interface ImageGenerationRequest {
+    image: ImageInput;
+    prompt: string;
+    /** Caption of the era being generated, for providers that style locally instead of from the prompt. */
+    era?: string;
+    /** Aborted when the job is cancelled; providers should stop work and reject as soon as they notice. */
+    signal?: AbortSignal;
+    /** Called when a provider backs off before retrying, so the UI can show a countdown. */
+    onRetry?: (event: RetryEvent) => void;
+    /** Called as each attempt moves from 'uploading' to 'waiting' on the model. */
+    onProgress?: (stage: GenerationStage) => void;
+}
+
+/**
+ * A backend capable of turning a source photo and a prompt into a new image.
+ * Implementations resolve with a data URL and reject with an Error whose message is user-facing.
+ */
+export interface ImageProvider {
+    readonly id: string;
+    /** Human-readable name, e.g. for the footer credit. */
+    readonly label: string;
+    readonly model: string;
+    /** Whether the AI Studio key selection dialog must be completed before generating. */
+    readonly requiresApiKey: boolean;
+    generateImage(request: ImageGenerationRequest): Promise<string>;
+}
+
+const PROVIDERS: Record<string, ImageProvider> = {
+    [geminiProvider.id]: geminiProvider,
+    [mockProvider.id]: mockProvider,
+};
+
+/**
+ * Returns the provider selected through the IMAGE_PROVIDER environment variable (see vite.config.ts).
+ */
+export function getImageProvider(): ImageProvider {
+    const configured = process.env.IMAGE_PROVIDER || geminiProvider.id;
+    const provider = PROVIDERS[configured];
+    if (!provider) {
+        console.warn(`Unknown IMAGE_PROVIDER "${configured}", falling back to "${geminiProvider.id}".`);
+        return geminiProvider;
+    }
+    return provider;
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createSeededRandom, delay, hashString, loadImage } from '../lib/utils.ts';
+import type { ImageGenerationRequest, ImageProvider } from './imageProvider.ts';
+
+interface DecadeLook {
+    sepia: number;
+    saturate: number;
+    contrast: number;
+    brightness: number;
+    hueRotate: number;
+    /** Maximum per-pixel noise amplitude, 0-255. */
+    grain: number;
+    /** Opacity of the darkened corners, 0-1. */
+    vignette: number;
+    /** Optional colour wash laid over the whole frame. */
+    tint?: string;
+}
+
+const DECADE_LOOKS: Record<string, DecadeLook> = {
+    '1950s': { sepia: 0.85, saturate: 0.6, contrast: 1.15, brightness: 0.95, hueRotate: 0, grain: 38, vignette: 0.65 },
+    '1960s': { sepia: 0.45, saturate: 0.9, contrast: 1.05, brightness: 1.0, hueRotate: -8, grain: 30, vignette: 0.5, tint: 'rgba(255, 200, 120, 0.12)' },
+    '1970s': { sepia: 0.35, saturate: 1.2, contrast: 0.95, brightness: 1.05, hueRotate: -15, grain: 26, vignette: 0.45, tint: 'rgba(255, 170, 60, 0.18)' },
+    '1980s': { sepia: 0.1, saturate: 1.45, contrast: 1.2, brightness: 1.05, hueRotate: 10, grain: 18, vignette: 0.35, tint: 'rgba(255, 60, 180, 0.1)' },
+    '1990s': { sepia: 0.15, saturate: 1.1, contrast: 1.1, brightness: 1.1, hueRotate: 0, grain: 22, vignette: 0.3, tint: 'rgba(120, 255, 160, 0.06)' },
+    '2000s': { sepia: 0.0, saturate: 1.05, contrast: 1.25, brightness: 1.08, hueRotate: 5, grain: 10, vignette: 0.2, tint: 'rgba(140, 180, 255, 0.08)' },
+};
+
+const SIMULATED_LATENCY_MS = 800;
+
+/**
+ * Picks the look for an era. Captions mentioning a known decade ("1920s flapper") reuse its look;
+ * anything else ("Victorian", "Y2K") gets a stable one derived from the seed.
+ */
+function getDecadeLook(era: string | undefined, random: () => number): DecadeLook {
+    const decade = era?.match(/\d{4}s/)?.[0];
+    if (decade && DECADE_LOOKS[decade]) return DECADE_LOOKS[decade];
+    return {
+        sepia: random() * 0.8,
+        saturate: 0.6 + random() * 0.8,
+        contrast: 0.95 + random() * 0.3,
+        brightness: 0.95 + random() * 0.15,
+        hueRotate: Math.round((random() - 0.5) * 40),
+        grain: 10 + random() * 30,
+        vignette: 0.2 + random() * 0.45,
+    };
+}
+
+/**
+ * Offline provider that fakes a generation by restyling the source photo with canvas filters.
+ * Useful for demos and local development without a paid API key.
+ */
+export const mockProvider: ImageProvider = {
+    id: 'mock',
+    label: 'Local Mock Darkroom',
+    model: 'canvas-filters',
+    requiresApiKey: false,
+    async generateImage({ image, prompt, era, signal, onProgress }: ImageGenerationRequest): Promise<string> {
+        onProgress?.('uploading');
+        const random = createSeededRandom(hashString(`${era ?? ''}|${prompt}|${image.data.length}|${image.data.slice(-64)}`));
+        const look = getDecadeLook(era, random);
+        const img = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+
+        const size = Math.min(img.naturalWidth, img.naturalHeight);
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get 2D canvas context');
+        }
+
+        // 1. Centre-crop to the same 1:1 aspect ratio the real model returns, with the era's colour grade
+        ctx.filter = `sepia(${look.sepia}) saturate(${look.saturate}) contrast(${look.contrast}) brightness(${look.brightness}) hue-rotate(${look.hueRotate}deg)`;
+        ctx.drawImage(img, (img.naturalWidth - size) / 2, (img.naturalHeight - size) / 2, size, size, 0, 0, size, size);
+        ctx.filter = 'none';
+
+        if (look.tint) {
+            ctx.fillStyle = look.tint;
+            ctx.fillRect(0, 0, size, size);
+        }
+
+        // 2. Film grain
+        const frame = ctx.getImageData(0, 0, size, size);
+        const pixels = frame.data;
+        for (let i = 0; i < pixels.length; i += 4) {
+            const noise = (random() - 0.5) * look.grain;
+            pixels[i] += noise;
+            pixels[i + 1] += noise;
+            pixels[i + 2] += noise;
+        }
+        ctx.putImageData(frame, 0, 0);
+
+        // 3. Vignette
+        const vignette = ctx.createRadialGradient(size / 2, size / 2, size * 0.3, size / 2, size / 2, size * 0.75);
+        vignette.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        vignette.addColorStop(1, `rgba(0, 0, 0, ${look.vignette})`);
+        ctx.fillStyle = vignette;
+        ctx.fillRect(0, 0, size, size);
+
+        // Give the "developing" animation something to show, as a real request would
+        onProgress?.('waiting');
+        await delay(SIMULATED_LATENCY_MS, signal);
+
+        return canvas.toDataURL('image/jpeg', 0.9);
+    },
+};
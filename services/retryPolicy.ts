@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationErrorKind } from '../types.ts';
+import { delay } from '../lib/utils.ts';
+import { type GenerationError, QuotaError, toGenerationError } from './generationErrors.ts';
+
+/**
+ * How many times to retry each kind of failure. Kinds left out are never retried,
+ * and quota errors only when they are a short-term rate limit.
+ */
+export type RetryRules = Partial<Record<GenerationErrorKind, number>>;
+
+export interface RetryPolicyOptions {
+    rules?: RetryRules;
+    /** Wait before the first retry; doubles on each retry after that. */
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Share of each backoff that is randomised, from 0 (none) to 1 (full jitter). */
+    jitter?: number;
+    /** Server-requested waits longer than this fail instead of retrying. */
+    maxRetryAfterMs?: number;
+    /** Shared across every job using this policy, so parallel jobs pace themselves together. */
+    bucket?: TokenBucket;
+    random?: () => number;
+}
+
+/**
+ * Reported before each backoff, e.g. to show a countdown.
+ */
+export interface RetryEvent {
+    /** The attempt that just failed, counting from 1. */
+    attempt: number;
+    delayMs: number;
+    /** Epoch milliseconds when the next attempt starts. */
+    retryAt: number;
+    error: GenerationError;
+}
+
+export interface RetryRunOptions {
+    signal?: AbortSignal;
+    onRetry?: (event: RetryEvent) => void;
+}
+
+export const DEFAULT_RETRY_RULES: RetryRules = {
+    quota: 4,
+    network: 3,
+};
+
+/**
+ * A token bucket rate limiter. Each request takes a token; tokens refill at a steady rate
+ * up to `capacity`, which allows short bursts. `pauseFor` holds every caller back at once,
+ * e.g. when the server says to slow down.
+ */
+export class TokenBucket {
+    private readonly capacity: number;
+    private readonly refillPerSecond: number;
+    private tokens: number;
+    private updatedAt = Date.now();
+    private pausedUntil = 0;
+
+    constructor(capacity: number, refillPerSecond: number) {
+        this.capacity = Math.max(1, capacity);
+        this.refillPerSecond = refillPerSecond;
+        this.tokens = this.capacity;
+    }
+
+    /**
+     * Resolves once a token is available, or rejects if `signal` is aborted while waiting.
+     */
+    async take(signal?: AbortSignal): Promise<void> {
+        for (;;) {
+            signal?.throwIfAborted();
+            this.refill();
+            const now = Date.now();
+            if (now >= this.pausedUntil && this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            const untilToken = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+            await delay(Math.max(this.pausedUntil - now, untilToken, 10), signal);
+        }
+    }
+
+    pauseFor(ms: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+        this.updatedAt = now;
+    }
+}
+
+/**
+ * Retries failed attempts with exponential backoff and jitter, honouring server-provided
+ * retry delays. How often each kind of error is retried is set by `rules`.
+ */
+export class RetryPolicy {
+    private readonly rules: RetryRules;
+    private readonly baseDelayMs: number;
+    private readonly maxDelayMs: number;
+    private readonly jitter: number;
+    private readonly maxRetryAfterMs: number;
+    private readonly bucket?: TokenBucket;
+    private readonly random: () => number;
+
+    constructor(options: RetryPolicyOptions = {}) {
+        this.rules = options.rules ?? DEFAULT_RETRY_RULES;
+        this.baseDelayMs = options.baseDelayMs ?? 1500;
+        this.maxDelayMs = options.maxDelayMs ?? 30000;
+        this.jitter = Math.min(1, Math.max(0, options.jitter ?? 0.5));
+        this.maxRetryAfterMs = options.maxRetryAfterMs ?? 60000;
+        this.bucket = options.bucket;
+        this.random = options.random ?? Math.random;
+    }
+
+    /**
+     * How long to wait before retry number `retry` (counting from 1) after `error`.
+     * Returns null when the error should not be retried.
+     */
+    getDelay(error: GenerationError, retry: number): number | null {
+        if (retry > (this.rules[error.kind] ?? 0)) return null;
+        // A used-up daily or project quota won't come back within any backoff, so fail straight away
+        if (error instanceof QuotaError && !error.isRateLimit) return null;
+        if (error.retryAfterMs !== undefined) {
+            return error.retryAfterMs <= this.maxRetryAfterMs ? error.retryAfterMs : null;
+        }
+        const backoff = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (retry - 1));
+        return Math.round(backoff * (1 - this.jitter * this.random()));
+    }
+
+    /**
+     * Runs `task` until it succeeds, an error runs out of retries, or `signal` is aborted.
+     * Rejects with a GenerationError.
+     */
+    async run<T>(task: () => Promise<T>, { signal, onRetry }: RetryRunOptions = {}): Promise<T> {
+        const retries: RetryRules = {};
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await this.bucket?.take(signal);
+                return await task();
+            } catch (err) {
+                const error = toGenerationError(err);
+                if (signal?.aborted) throw error;
+
+                const retry = (retries[error.kind] ?? 0) + 1;
+                const delayMs = this.getDelay(error, retry);
+                if (delayMs === null) throw error;
+                retries[error.kind] = retry;
+
+                // The server's wait applies to everyone sharing the quota, not just this job
+                if (error.retryAfterMs !== undefined) this.bucket?.pauseFor(delayMs);
+                onRetry?.({ attempt, delayMs, retryAt: Date.now() + delayMs, error });
+                try {
+                    await delay(delayMs, signal);
+                } catch (abortReason) {
+                    throw toGenerationError(abortReason);
+                }
+            }
+        }
+    }
+}
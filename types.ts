@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FilmFilter } from './lib/filmFilters.ts';
+
+export type ImageStatus = 'pending' | 'done' | 'error' | 'cancelled';
+
+/**
+ * Why a generation failed. Each kind has its own fix in the UI, e.g. re-selecting the key or editing the prompt.
+ */
+export type GenerationErrorKind = 'auth' | 'quota' | 'safety' | 'text-response' | 'network' | 'invalid-input' | 'cancelled' | 'unknown';
+
+/**
+ * Where a pending job is, from waiting its turn in the queue to decoding the returned image.
+ */
+export type GenerationStage = 'queued' | 'uploading' | 'waiting' | 'retrying' | 'decoding';
+
+export interface GenerationProgress {
+    stage: GenerationStage;
+    /** When this stage began, in epoch milliseconds. */
+    since: number;
+}
+
+/**
+ * One attempt at an era. Shaking a card adds another rather than replacing the last.
+ */
+export interface ImageVariant {
+    url: string;
+    /** The exact prompt sent for this result. */
+    prompt?: string;
+    /** PROMPT_TEMPLATE_VERSION at the time of generation. */
+    promptVersion?: number;
+    /** ImageProvider id and model that produced this result. */
+    provider?: string;
+    model?: string;
+    /** How closely the face matches the uploaded photo, 0..1, from the on-device likeness check. */
+    consistency?: number;
+    /** When this result came back, in epoch milliseconds. */
+    createdAt: number;
+}
+
+export interface GeneratedImage {
+    /** State of the most recent job for this era. */
+    status: ImageStatus;
+    /** Every successful result, oldest first. */
+    variants: ImageVariant[];
+    /** The user's favourite; what downloads and albums use. */
+    selectedIndex: number;
+    error?: string;
+    /** Set alongside `error`. Missing on results saved before errors were classified. */
+    errorKind?: GenerationErrorKind;
+    /** The prompt of the most recent job. */
+    prompt?: string;
+    /**
+     * While a pending job is backing off: when its next attempt starts, in epoch milliseconds.
+     * After a rate-limit failure: when the server said trying again may work.
+     */
+    retryAt?: number;
+    /** While pending: how far the job has got. */
+    progress?: GenerationProgress;
+    /** When the most recent job settled, in epoch milliseconds. */
+    createdAt?: number;
+    /** Local film look over every take, kept through downloads and albums. */
+    filmFilter?: FilmFilter;
+}
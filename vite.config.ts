@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER || 'gemini'),
+        'process.env.GENERATION_CONCURRENCY': JSON.stringify(env.GENERATION_CONCURRENCY || '3')
       },
       resolve: {
         alias: {